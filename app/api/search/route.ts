@@ -1,13 +1,19 @@
-import { searchDocs } from "@/lib/search-engine";
+import { LATEST_VERSION } from "@/lib/docs-versions";
+import { searchDocs } from "@/lib/search-index";
+import { parseSearchQuery } from "@/lib/search-query";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const query = searchParams.get("q") || "";
+  const query = parseSearchQuery(searchParams.get("q") || "");
 
-  if (!query) {
-    return Response.json([]);
+  if (!query.text && query.filters.length === 0) {
+    return Response.json({ ...query, results: [] });
   }
 
-  const results = searchDocs(query);
-  return Response.json(results);
+  // Echo the parsed query so callers can tell which filters were applied
+  const results = searchDocs(
+    query,
+    searchParams.get("version") || LATEST_VERSION,
+  );
+  return Response.json({ ...query, results });
 }
@@ -0,0 +1,113 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { Metadata } from "next";
+import { getDocsHealthReport } from "@/lib/docs-health";
+
+/*
+ * Dev-only report at /docs/_health (the folder is URL-encoded because
+ * `_`-prefixed folders are private in the app router).
+ */
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "XyPriss - Docs Health",
+  robots: { index: false, follow: false },
+};
+
+export default function DocsHealthPage() {
+  if (process.env.NODE_ENV === "production") {
+    notFound();
+  }
+
+  const { orphans, missingNavEntries, brokenLinks } = getDocsHealthReport();
+
+  return (
+    <article className="prose prose-zinc dark:prose-invert max-w-none pb-12 documentation-article">
+      <h1>Docs Health</h1>
+      <p>
+        Same report as <code>npm run docs:check</code>. Only available in
+        development.
+      </p>
+
+      <h2>Orphaned docs ({orphans.length})</h2>
+      {orphans.length === 0 ? (
+        <p>Every doc is reachable from the sidebar.</p>
+      ) : (
+        <ul>
+          {orphans.map((doc) => (
+            <li key={doc.slug}>
+              <Link href={`/docs/${doc.slug}`}>{doc.title}</Link>{" "}
+              <code>{doc.file}</code>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h2>Navigation entries without a doc ({missingNavEntries.length})</h2>
+      {missingNavEntries.length === 0 ? (
+        <p>Every sidebar entry and app link resolves.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Link</th>
+              <th>Label</th>
+              <th>Source</th>
+            </tr>
+          </thead>
+          <tbody>
+            {missingNavEntries.map((entry, idx) => (
+              <tr key={idx}>
+                <td>
+                  <code>{entry.href}</code>
+                </td>
+                <td>{entry.title}</td>
+                <td>
+                  <code>{entry.source}</code>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <h2>Broken internal links ({brokenLinks.length})</h2>
+      {brokenLinks.length === 0 ? (
+        <p>Every internal link and heading anchor resolves.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Location</th>
+              <th>Link</th>
+              <th>Rewritten to</th>
+              <th>Problem</th>
+            </tr>
+          </thead>
+          <tbody>
+            {brokenLinks.map((link, idx) => (
+              <tr key={idx}>
+                <td>
+                  <code>
+                    {link.file}:{link.line}
+                  </code>
+                </td>
+                <td>
+                  {link.text} <code>{link.href}</code>
+                </td>
+                <td>
+                  <code>{link.target}</code>
+                </td>
+                <td>
+                  {link.reason === "missing-anchor"
+                    ? "No such heading"
+                    : "No such doc"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,33 @@
+import { getAllDocs, getDocBySlug } from "@/lib/doc-helper";
+import { extractHeadings } from "@/lib/headings";
+import { TableOfContents } from "@/components/table-of-contents";
+
+export const revalidate = 14400; // 4 hours, same as the doc pages
+
+/* h1 is the page title, anything below h4 is too fine-grained to list */
+const TOC_DEPTHS = [2, 3, 4];
+
+interface TocSlotProps {
+  params: Promise<{
+    slug?: string[];
+  }>;
+}
+
+export async function generateStaticParams() {
+  return getAllDocs().map((doc) => ({
+    slug: doc.slug.split("/").filter(Boolean),
+  }));
+}
+
+export default async function TocSlot({ params }: TocSlotProps) {
+  const { slug } = await params;
+  const doc = await getDocBySlug(slug ? slug.join("/") : "");
+  if (!doc) return null;
+
+  return (
+    <TableOfContents
+      key={doc.slug}
+      headings={extractHeadings(doc.content, TOC_DEPTHS)}
+    />
+  );
+}
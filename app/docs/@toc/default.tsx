@@ -0,0 +1,4 @@
+/* Pages outside the doc route (e.g. /docs/_health) have no TOC */
+export default function TocDefault() {
+  return null;
+}
@@ -1,11 +1,22 @@
-import { notFound } from "next/navigation";
+import { notFound, redirect } from "next/navigation";
 
 export const revalidate = 14400; // 4 hours
-import { getAllDocs, getDocBySlug, normalizeSlug } from "@/lib/doc-helper";
+import Link from "next/link";
+import { History } from "lucide-react";
+import {
+  Doc,
+  findDocInVersion,
+  getAllDocs,
+  getCanonicalDoc,
+  getDocBySlug,
+  getDocVersions,
+} from "@/lib/doc-helper";
+import { rewriteDocLinks, stripHtmlComments } from "@/lib/doc-links";
+import { LATEST_VERSION, latestAliasHref } from "@/lib/docs-versions";
 import { Metadata } from "next";
 import { Pager } from "@/components/pager";
 import { SearchHighlight } from "@/components/search-highlight";
-import { CodeBlock } from "@/components/ui/code-block";
+import { DocContent } from "@/components/doc-content";
 
 interface DocPageProps {
   params: Promise<{
@@ -31,12 +42,14 @@ export async function generateMetadata({
     doc.frontmatter.description ||
     `Explore ${title} in the XyPriss documentation. Build high-performance hybrid Rust + TypeScript web applications.`;
   const url = `https://xypriss.nehonix.com/docs/${doc.slug}`;
+  // Older versions point search engines at the latest copy of the page
+  const canonical = getCanonicalDoc(doc);
 
   return {
     title: `XyPriss - ${title}`,
     description,
     alternates: {
-      canonical: url,
+      canonical: `https://xypriss.nehonix.com/docs/${canonical.slug}`,
     },
     openGraph: {
       title: `XyPriss Documentation: ${title}`,
@@ -72,6 +85,11 @@ export async function generateStaticParams() {
 export default async function DocPage({ params }: DocPageProps) {
   const { slug } = await params;
   const slugPath = slug ? slug.join("/") : "";
+
+  // A "latest" prefix is an alias of the unprefixed path
+  const aliasHref = latestAliasHref(slugPath);
+  if (aliasHref) redirect(aliasHref);
+
   const doc = await getDocBySlug(slugPath);
 
   if (!doc) {
@@ -85,32 +103,45 @@ export default async function DocPage({ params }: DocPageProps) {
   return renderDoc(doc, doc.slug);
 }
 
+/**
+ * Banner on pages of an older version, linking to the latest copy of the
+ * page, or to the latest docs when the page is gone.
+ */
+function OldVersionNotice({ doc }: { doc: Doc }) {
+  if (doc.version === LATEST_VERSION) return null;
+
+  const latest = findDocInVersion(doc, LATEST_VERSION);
+  const label =
+    getDocVersions().find((version) => version.id === doc.version)?.label ??
+    doc.version;
+
+  return (
+    <div className="not-prose mb-6 flex items-start gap-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm">
+      <History
+        className="mt-0.5 h-4 w-4 shrink-0 text-amber-500"
+        aria-hidden="true"
+      />
+      <p>
+        You are reading the documentation for {label}.{" "}
+        <Link
+          href={latest ? `/docs/${latest.slug}` : "/docs"}
+          className="font-medium underline underline-offset-4"
+        >
+          {latest
+            ? "See this page in the latest version"
+            : "Go to the latest documentation"}
+        </Link>
+        .
+      </p>
+    </div>
+  );
+}
+
 function renderDoc(doc: any, slugPath: string) {
-  // 0. Remove HTML comments
-  let sanitizedContent = doc.content.replace(/<!--[\s\S]*?-->/g, "");
-
-  // 1. Robust Link Sanitization for Internal Links
-  sanitizedContent = sanitizedContent.replace(
-    /\[(.*?)\]\((.*?)\)/g,
-    (match: string, text: string, href: string) => {
-      if (
-        href.startsWith("http") ||
-        href.startsWith("//") ||
-        href.startsWith("#")
-      ) {
-        return match;
-      }
-
-      let target = href.replace(/\.mdx?$/, "");
-      target = target.replace(/^(\.\.?\/)+/, "");
-      target = target.replace(/^\/+/, "");
-
-      // Use normalizeSlug to ensure lowercase and no README
-      const normalizedTarget = normalizeSlug(target.replace(/^docs\//, ""));
-      const cleanHref = `/docs/${normalizedTarget}`;
-
-      return `[${text}](${cleanHref})`;
-    },
+  // Remove HTML comments, then point internal links at their routes
+  const sanitizedContent = rewriteDocLinks(
+    stripHtmlComments(doc.content),
+    doc.version,
   );
 
   const title = doc.frontmatter.title || doc.slug;
@@ -152,12 +183,13 @@ function renderDoc(doc: any, slugPath: string) {
         type="application/ld+json"
         dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
       />
+      <OldVersionNotice doc={doc} />
       <SearchHighlight />
-      {/* 
-          All documentation rendering (Markdown, Highlighting, Code Blocks) 
-          is now encapsulated in the CodeBlock component. 
+      {/*
+          Markdown and highlighting are rendered here on the server, only
+          the copy buttons and annotations hydrate (see DocContent).
       */}
-      <CodeBlock code={sanitizedContent} isMarkdown />
+      <DocContent markdown={sanitizedContent} />
 
       <Pager slug={slugPath} />
     </article>
@@ -1,35 +1,58 @@
 import { Sidebar } from "@/components/sidebar";
 import { SiteHeader } from "@/components/site-header";
 import { SearchResultsSidebar } from "@/components/search-results-sidebar";
+import {
+  DocsVersionData,
+  DocsVersionsProvider,
+} from "@/components/docs-versions";
+import { getAllDocs, getDocVersions } from "@/lib/doc-helper";
+import { getDocsNavigation } from "@/lib/docs-nav";
+import { getSearchIndexUrl } from "@/lib/search-index";
 import { Suspense } from "react";
 
 interface DocsLayoutProps {
   children: React.ReactNode;
+  /* "On this page" navigation of the current doc, see `@toc` */
+  toc: React.ReactNode;
 }
 
-export default function DocsLayout({ children }: DocsLayoutProps) {
+export default function DocsLayout({ children, toc }: DocsLayoutProps) {
+  const searchIndexUrl = getSearchIndexUrl();
+  const navigation = getDocsNavigation();
+
+  // The layout does not know the page, the client picks its version
+  const versions: DocsVersionData[] = getDocVersions().map((version) => ({
+    ...version,
+    navigation: getDocsNavigation(version.id),
+    searchIndexUrl: getSearchIndexUrl(version.id),
+    slugs: getAllDocs(version.id).map((doc) => doc.slug),
+  }));
+
   return (
-    <div className="flex min-h-screen flex-col">
-      <SiteHeader />
-      <div className="container flex-1 items-start md:grid md:grid-cols-[220px_minmax(0,1fr)] md:gap-6 lg:grid-cols-[240px_minmax(0,1fr)] lg:gap-10 px-4 md:px-8 max-w-screen-2xl">
-        <Sidebar />
-        <main className="relative py-6 lg:gap-10 lg:py-8 xl:grid xl:grid-cols-[1fr_300px]">
-          <div className="mx-auto w-full min-w-0">
-            {children}
-            <div className="xl:hidden">
+    <DocsVersionsProvider versions={versions}>
+      <div className="flex min-h-screen flex-col">
+        <SiteHeader searchIndexUrl={searchIndexUrl} navigation={navigation} />
+        <div className="container flex-1 items-start md:grid md:grid-cols-[220px_minmax(0,1fr)] md:gap-6 lg:grid-cols-[240px_minmax(0,1fr)] lg:gap-10 px-4 md:px-8 max-w-screen-2xl">
+          <Sidebar groups={navigation} />
+          <main className="relative py-6 lg:gap-10 lg:py-8 xl:grid xl:grid-cols-[1fr_300px]">
+            <div className="mx-auto w-full min-w-0">
+              {children}
+              <div className="xl:hidden">
+                <Suspense fallback={null}>
+                  <SearchResultsSidebar indexUrl={searchIndexUrl} />
+                </Suspense>
+              </div>
+            </div>
+            {/* The right sidebar: search results, or the page TOC */}
+            <aside className="hidden xl:block">
               <Suspense fallback={null}>
-                <SearchResultsSidebar />
+                <SearchResultsSidebar indexUrl={searchIndexUrl} />
+                {toc}
               </Suspense>
-            </div>
-          </div>
-          {/* The right sidebar for search results */}
-          <aside className="hidden xl:block">
-            <Suspense fallback={null}>
-              <SearchResultsSidebar />
-            </Suspense>
-          </aside>
-        </main>
+            </aside>
+          </main>
+        </div>
       </div>
-    </div>
+    </DocsVersionsProvider>
   );
 }
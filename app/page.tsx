@@ -1,7 +1,14 @@
 import { LandingPageClient } from "@/components/landing/landing-page-client";
+import { getDocsNavigation } from "@/lib/docs-nav";
+import { getSearchIndexUrl } from "@/lib/search-index";
 
 export const revalidate = 14400; // 4 hours
 
 export default function Home() {
-  return <LandingPageClient />;
+  return (
+    <LandingPageClient
+      searchIndexUrl={getSearchIndexUrl()}
+      navigation={getDocsNavigation()}
+    />
+  );
 }
@@ -0,0 +1,49 @@
+import { getDocVersions } from "@/lib/doc-helper";
+import { getSearchIndex } from "@/lib/search-index";
+
+/*
+ * Emitted once per docs version at build time as
+ * /search-index/<version>.json so search works on a statically exported
+ * site without any server round-trip. <version> is the content hash.
+ */
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+interface SearchIndexRouteProps {
+  params: Promise<{
+    file: string;
+  }>;
+}
+
+function getSearchIndexes() {
+  return getDocVersions().map((version) => getSearchIndex(version.id));
+}
+
+export function generateStaticParams() {
+  return getSearchIndexes().map((index) => ({
+    file: `${index.version}.json`,
+  }));
+}
+
+export async function GET(
+  _request: Request,
+  { params }: SearchIndexRouteProps,
+) {
+  const { file } = await params;
+  const index = getSearchIndexes().find(
+    (candidate) => file === `${candidate.version}.json`,
+  );
+
+  if (!index) {
+    return Response.json(
+      { error: "Unknown search index version" },
+      { status: 404 },
+    );
+  }
+
+  return Response.json(index, {
+    headers: {
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
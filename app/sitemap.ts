@@ -1,9 +1,10 @@
-import { getAllDocs } from "@/lib/doc-helper";
+import { getAllDocs, getCanonicalDoc } from "@/lib/doc-helper";
 import { MetadataRoute } from "next";
 
 export default function sitemap(): MetadataRoute.Sitemap {
   const baseUrl = "https://xypriss.nehonix.com";
-  const docs = getAllDocs();
+  // Pages of older versions are only listed when the latest lacks them
+  const docs = getAllDocs().filter((doc) => getCanonicalDoc(doc) === doc);
 
   const docEntries = docs.map((doc) => ({
     url: `${baseUrl}/docs${doc.slug ? `/${doc.slug}` : ""}`,
@@ -19,6 +20,12 @@ export default function sitemap(): MetadataRoute.Sitemap {
       changeFrequency: "daily",
       priority: 1,
     },
+    {
+      url: `${baseUrl}/tools/config-builder`,
+      lastModified: new Date(),
+      changeFrequency: "weekly",
+      priority: 0.6,
+    },
     ...docEntries,
   ];
 }
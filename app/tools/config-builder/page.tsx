@@ -0,0 +1,41 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { Suspense } from "react";
+import { ConfigBuilder } from "@/components/config-builder";
+import { SiteHeader } from "@/components/site-header";
+import { getDocsNavigation } from "@/lib/docs-nav";
+import { getSearchIndexUrl } from "@/lib/search-index";
+
+export const metadata: Metadata = {
+  title: "XyPriss - Config Builder",
+  description:
+    "Build XyPriss createServer options and the xypriss.config.json meta config, validated as you type.",
+};
+
+export default function ConfigBuilderPage() {
+  return (
+    <div className="flex min-h-screen flex-col">
+      <SiteHeader
+        searchIndexUrl={getSearchIndexUrl()}
+        navigation={getDocsNavigation()}
+      />
+      <main className="container mx-auto max-w-screen-2xl flex-1 px-4 py-10 md:px-8">
+        <div className="mb-10 max-w-3xl space-y-3">
+          <h1 className="text-3xl font-bold tracking-tight">Config Builder</h1>
+          <p className="text-muted-foreground">
+            Fill in the options you need and copy the <code>createServer</code>{" "}
+            call and the <code>xypriss.config.json</code> meta file. Leave a
+            field empty to keep its default. See the{" "}
+            <Link href="/docs/configuration" className="underline">
+              configuration guide
+            </Link>{" "}
+            for every option.
+          </p>
+        </div>
+        <Suspense fallback={null}>
+          <ConfigBuilder />
+        </Suspense>
+      </main>
+    </div>
+  );
+}
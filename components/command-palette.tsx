@@ -0,0 +1,329 @@
+"use client";
+
+import * as React from "react";
+import { createPortal } from "react-dom";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import {
+  Search,
+  FileText,
+  Hash,
+  History,
+  Loader2,
+  CornerDownLeft,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { loadSearcher } from "@/lib/search-client";
+import { Searcher, getResultHref, runSearch } from "@/lib/search-engine";
+import { parseSearchQuery } from "@/lib/search-query";
+import type { NavGroup } from "@/lib/docs-nav";
+
+const RECENT_SEARCHES_KEY = "xypriss:recent-searches";
+const MAX_RECENT_SEARCHES = 5;
+const MAX_RESULTS = 20;
+
+interface PaletteItem {
+  key: string;
+  group: string;
+  label: string;
+  detail?: string;
+  icon: "page" | "section" | "recent";
+  /* Route to open, or a query to fill in for recent searches */
+  href?: string;
+  query?: string;
+}
+
+interface CommandPaletteProps {
+  indexUrl: string;
+  navigation: NavGroup[];
+  onClose: () => void;
+}
+
+function readRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(
+      window.localStorage.getItem(RECENT_SEARCHES_KEY) || "[]",
+    );
+    return Array.isArray(stored) ? stored.slice(0, MAX_RECENT_SEARCHES) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentSearch(query: string) {
+  const recent = [
+    query,
+    ...readRecentSearches().filter((q) => q !== query),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  try {
+    window.localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+  } catch {
+    /* Private mode or full storage: recents are a nicety */
+  }
+}
+
+/**
+ * Cmd/Ctrl+K search dialog, mounted while open (inside an AnimatePresence).
+ * Nothing here touches the URL until an entry is actually opened.
+ */
+export function CommandPalette({
+  indexUrl,
+  navigation,
+  onClose,
+}: CommandPaletteProps) {
+  const router = useRouter();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const [query, setQuery] = React.useState("");
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const [recent] = React.useState(readRecentSearches);
+  const [loaded, setLoaded] = React.useState<{
+    url: string;
+    searcher: Searcher | null;
+  } | null>(null);
+
+  // Fetch the index the first time the palette opens
+  React.useEffect(() => {
+    if (loaded?.url === indexUrl) return;
+
+    let cancelled = false;
+    loadSearcher(indexUrl)
+      .then((searcher) => {
+        if (!cancelled) setLoaded({ url: indexUrl, searcher });
+      })
+      .catch((err) => {
+        console.error("Search failed", err);
+        if (!cancelled) setLoaded({ url: indexUrl, searcher: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [indexUrl, loaded]);
+
+  const searcher = loaded?.url === indexUrl ? loaded.searcher : null;
+  const loading = !!query.trim() && loaded?.url !== indexUrl;
+
+  const pages = React.useMemo(
+    () =>
+      navigation.flatMap((group) =>
+        group.items.map((item) => ({ ...item, group: group.title })),
+      ),
+    [navigation],
+  );
+
+  const items = React.useMemo<PaletteItem[]>(() => {
+    const trimmed = query.trim();
+
+    if (!trimmed) {
+      return [
+        ...recent.map((q) => ({
+          key: `recent:${q}`,
+          group: "Recent searches",
+          label: q,
+          icon: "recent" as const,
+          query: q,
+        })),
+        ...pages.map((page) => ({
+          key: `page:${page.href}`,
+          group: page.group,
+          label: page.title,
+          icon: "page" as const,
+          href: page.href,
+        })),
+      ];
+    }
+
+    const parsed = parseSearchQuery(trimmed);
+    const needle = (parsed.phrases[0] || parsed.text).toLowerCase();
+
+    const pageItems: PaletteItem[] = needle
+      ? pages
+          .filter((page) => page.title.toLowerCase().includes(needle))
+          .map((page) => ({
+            key: `page:${page.href}`,
+            group: "Pages",
+            label: page.title,
+            detail: page.group,
+            icon: "page" as const,
+            href: page.href,
+          }))
+      : [];
+
+    // Results are grouped under the document they belong to
+    const resultItems: PaletteItem[] = searcher
+      ? runSearch(searcher, parsed)
+          .slice(0, MAX_RESULTS)
+          .map((result) => ({
+            key: `result:${result.slug}#${result.anchor}`,
+            group: result.title,
+            label: result.heading || result.title,
+            detail: result.snippet,
+            icon: result.heading ? ("section" as const) : ("page" as const),
+            href: getResultHref(result, trimmed),
+          }))
+      : [];
+
+    const order = new Map<string, number>();
+    resultItems.forEach((item) => {
+      if (!order.has(item.group)) order.set(item.group, order.size);
+    });
+
+    return [
+      ...pageItems,
+      ...resultItems.sort((a, b) => order.get(a.group)! - order.get(b.group)!),
+    ];
+  }, [query, recent, searcher, pages]);
+
+  React.useEffect(() => {
+    document
+      .getElementById(`palette-item-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const choose = (item: PaletteItem) => {
+    if (item.query !== undefined) {
+      setQuery(item.query);
+      setActiveIndex(0);
+      inputRef.current?.focus();
+      return;
+    }
+    if (!item.href) return;
+
+    if (query.trim() && item.icon !== "page") {
+      saveRecentSearch(query.trim());
+    }
+    onClose();
+    router.push(item.href);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (items.length ? (i + 1) % items.length : 0));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) =>
+        items.length ? (i - 1 + items.length) % items.length : 0,
+      );
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (items[activeIndex]) choose(items[activeIndex]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  // Portaled: the sticky, blurred header would otherwise contain `fixed`
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-start justify-center px-4 pt-[12vh]">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+
+      <motion.div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search documentation"
+        initial={{ opacity: 0, scale: 0.96, y: -10 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.96, y: -10 }}
+        transition={{ type: "spring", damping: 25, stiffness: 300 }}
+        onKeyDown={handleKeyDown}
+        className="relative w-full max-w-2xl overflow-hidden rounded-2xl border border-white/10 bg-[#0d1117]/95 backdrop-blur-3xl shadow-[0_40px_80px_-20px_rgba(0,0,0,0.9)] ring-1 ring-white/10"
+      >
+        <div className="absolute inset-x-0 top-0 h-px bg-gradient-to-r from-transparent via-amber-500/50 to-transparent" />
+
+        <div className="flex items-center gap-3 border-b border-white/5 px-4">
+          {loading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-amber-500" />
+          ) : (
+            <Search className="h-4 w-4 text-amber-500" />
+          )}
+          <input
+            ref={inputRef}
+            autoFocus
+            type="text"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="palette-results"
+            aria-activedescendant={
+              items[activeIndex] ? `palette-item-${activeIndex}` : undefined
+            }
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            placeholder='Search docs... try "trust proxy" or section:security'
+            className="h-14 flex-1 bg-transparent text-sm placeholder:text-muted-foreground focus:outline-none"
+          />
+          <kbd className="hidden sm:block px-1.5 py-0.5 rounded border border-border/40 bg-zinc-950/50 text-[10px] text-muted-foreground font-mono">
+            ESC
+          </kbd>
+        </div>
+
+        <div
+          id="palette-results"
+          role="listbox"
+          className="max-h-[60vh] overflow-y-auto p-2 scrollbar-none"
+        >
+          {items.map((item, idx) => (
+            <React.Fragment key={item.key}>
+              {(idx === 0 || items[idx - 1].group !== item.group) && (
+                <div className="px-3 pb-1 pt-3 text-[10px] font-black uppercase tracking-[0.2em] text-zinc-500">
+                  {item.group}
+                </div>
+              )}
+              <div
+                id={`palette-item-${idx}`}
+                role="option"
+                aria-selected={idx === activeIndex}
+                onMouseMove={() => setActiveIndex(idx)}
+                onClick={() => choose(item)}
+                className={cn(
+                  "flex cursor-pointer items-center gap-3 rounded-xl px-3 py-2.5 transition-colors",
+                  idx === activeIndex
+                    ? "bg-amber-500/10 text-amber-400"
+                    : "text-zinc-300",
+                )}
+              >
+                {item.icon === "recent" ? (
+                  <History className="h-4 w-4 shrink-0 text-zinc-500" />
+                ) : item.icon === "section" ? (
+                  <Hash className="h-4 w-4 shrink-0 text-zinc-500" />
+                ) : (
+                  <FileText className="h-4 w-4 shrink-0 text-zinc-500" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-semibold">
+                    {item.label}
+                  </div>
+                  {item.detail && (
+                    <div className="truncate text-[11px] text-zinc-500">
+                      {item.detail}
+                    </div>
+                  )}
+                </div>
+                {idx === activeIndex && (
+                  <CornerDownLeft className="h-3.5 w-3.5 shrink-0 text-amber-500" />
+                )}
+              </div>
+            </React.Fragment>
+          ))}
+
+          {!loading && query.trim() && items.length === 0 && (
+            <div className="py-12 text-center text-xs text-zinc-500">
+              No matching frequency across the documentation spectrum.
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import * as React from "react";
+import { useSearchParams } from "next/navigation";
+import {
+  AlertCircle,
+  Check,
+  CheckCircle2,
+  Link2,
+  RotateCcw,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  BUILDER_SECTIONS,
+  BuilderField,
+  BuilderValues,
+  buildConfig,
+  toMetaConfigFile,
+  toServerSnippet,
+  valuesFromSearch,
+  valuesToSearch,
+} from "@/lib/config-builder";
+import { Button } from "./ui/button";
+import { CodeBlock } from "./ui/code-block";
+
+const inputClassName =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-sm shadow-sm transition-colors placeholder:text-muted-foreground/60 focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-ring";
+
+function fieldId(key: string) {
+  return `field-${key.replace(/[^\w-]/g, "-")}`;
+}
+
+interface FieldInputProps {
+  field: BuilderField;
+  value: string;
+  issues: string[] | undefined;
+  onChange: (value: string) => void;
+}
+
+function FieldInput({ field, value, issues, onChange }: FieldInputProps) {
+  const id = fieldId(field.key);
+  const invalid = !!issues?.length;
+  const describedBy = [
+    field.description && `${id}-help`,
+    invalid && `${id}-issues`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const common = {
+    id,
+    value,
+    "aria-invalid": invalid || undefined,
+    "aria-describedby": describedBy || undefined,
+    className: cn(inputClassName, invalid && "border-red-500/70"),
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <label htmlFor={id} className="flex items-baseline gap-2 text-sm">
+        <span className="font-medium">{field.label}</span>
+        <code className="text-[11px] text-muted-foreground">{field.key}</code>
+      </label>
+
+      {field.kind === "select" ? (
+        <select {...common} onChange={(event) => onChange(event.target.value)}>
+          <option value="">
+            {field.placeholder ? `Default (${field.placeholder})` : "Not set"}
+          </option>
+          {field.options!.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          {...common}
+          type="text"
+          inputMode={field.kind === "number" ? "numeric" : undefined}
+          placeholder={
+            field.placeholder ??
+            (field.kind === "list" ? "Comma-separated values" : undefined)
+          }
+          onChange={(event) => onChange(event.target.value)}
+        />
+      )}
+
+      {field.description && (
+        <p id={`${id}-help`} className="text-xs text-muted-foreground">
+          {field.description.replace(/`/g, "")}
+        </p>
+      )}
+      {invalid && (
+        <ul id={`${id}-issues`} className="space-y-0.5 text-xs text-red-500">
+          {issues!.map((issue) => (
+            <li key={issue} className="flex items-center gap-1">
+              <AlertCircle className="h-3 w-3 shrink-0" aria-hidden="true" />
+              {issue}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Form for `createServer()` options and the `__sys__` meta config,
+ * validated against the JSON Schemas as it is filled in. The fields are
+ * kept in the query string, so a link to the page shares them.
+ */
+export function ConfigBuilder() {
+  const searchParams = useSearchParams();
+  const [values, setValues] = React.useState<BuilderValues>(() =>
+    valuesFromSearch(searchParams),
+  );
+  const [copied, setCopied] = React.useState(false);
+
+  const { serverOptions, metaConfig, issues } = React.useMemo(
+    () => buildConfig(values),
+    [values],
+  );
+  const problemCount = Object.values(issues).flat().length;
+
+  React.useEffect(() => {
+    const url = `${window.location.pathname}${valuesToSearch(values)}`;
+    window.history.replaceState(null, "", url);
+  }, [values]);
+
+  const setValue = (key: string, value: string) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Copy failed", err);
+    }
+  };
+
+  return (
+    <div className="grid gap-10 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.1fr)]">
+      <form
+        className="space-y-8"
+        onSubmit={(event) => event.preventDefault()}
+        aria-label="Configuration"
+      >
+        {BUILDER_SECTIONS.map((section) => (
+          <fieldset
+            key={section.id}
+            className="space-y-4 rounded-lg border border-border p-5"
+          >
+            <legend className="px-1 text-sm font-semibold">
+              {section.title}
+            </legend>
+            {section.fields.map((field) => (
+              <FieldInput
+                key={field.key}
+                field={field}
+                value={values[field.key] ?? ""}
+                issues={issues[field.key]}
+                onChange={(value) => setValue(field.key, value)}
+              />
+            ))}
+          </fieldset>
+        ))}
+      </form>
+
+      <div className="space-y-6 lg:sticky lg:top-24 lg:self-start">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p
+            role="status"
+            className={cn(
+              "flex items-center gap-2 text-sm",
+              problemCount ? "text-red-500" : "text-muted-foreground",
+            )}
+          >
+            {problemCount ? (
+              <AlertCircle className="h-4 w-4" aria-hidden="true" />
+            ) : (
+              <CheckCircle2
+                className="h-4 w-4 text-green-500"
+                aria-hidden="true"
+              />
+            )}
+            {problemCount
+              ? `${problemCount} problem(s) to fix`
+              : "Valid configuration"}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={copyLink}>
+              {copied ? (
+                <Check className="h-3.5 w-3.5" />
+              ) : (
+                <Link2 className="h-3.5 w-3.5" />
+              )}
+              {copied ? "Link copied" : "Copy link"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setValues({})}>
+              <RotateCcw className="h-3.5 w-3.5" />
+              Reset
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-sm font-semibold">Server</h2>
+          <CodeBlock
+            language="typescript"
+            code={toServerSnippet(serverOptions)}
+          />
+        </div>
+        <div>
+          <h2 className="text-sm font-semibold">
+            Meta config <code className="text-xs">xypriss.config.json</code>
+          </h2>
+          <CodeBlock language="json" code={toMetaConfigFile(metaConfig)} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import Link from "next/link";
+import { Fragment, jsx, jsxs } from "react/jsx-runtime";
+import { toJsxRuntime, type Components } from "hast-util-to-jsx-runtime";
+import { cn } from "@/lib/utils";
+import { CALLOUT_TAG } from "@/lib/callouts";
+import { ANNOTATION_TRIGGER_TAG } from "@/lib/highlight";
+import { CODE_BLOCK_TAG, CODE_GROUP_TAG, markdownToHast } from "@/lib/markdown";
+import { AnnotationProvider, CommentTrigger } from "./ui/annotations";
+import { Callout } from "./ui/callout";
+import { CodeBlockWrapper } from "./ui/code-block-wrapper";
+import { CodeGroup } from "./ui/code-group";
+import "highlight.js/styles/tokyo-night-dark.css";
+
+interface DocContentProps {
+  markdown: string;
+  className?: string;
+}
+
+type HeadingTag = "h1" | "h2" | "h3" | "h4" | "h5" | "h6";
+
+/**
+ * Heading with a `#` link to itself, shown on hover. The id is set by
+ * `rehypeHeadingIds`.
+ */
+function anchoredHeading(Tag: HeadingTag) {
+  return function AnchoredHeading({
+    children,
+    id,
+    ...props
+  }: React.ComponentProps<HeadingTag>) {
+    return (
+      <Tag id={id} {...props} className="scroll-mt-24 group">
+        {children}{" "}
+        <a
+          href={`#${id}`}
+          className="opacity-0 group-hover:opacity-100 transition-opacity ml-2 text-primary/40 hover:text-primary"
+        >
+          #
+        </a>
+      </Tag>
+    );
+  };
+}
+
+const components = {
+  h1: anchoredHeading("h1"),
+  h2: anchoredHeading("h2"),
+  h3: anchoredHeading("h3"),
+  h4: anchoredHeading("h4"),
+  h5: anchoredHeading("h5"),
+  h6: anchoredHeading("h6"),
+  a: ({ href, children }: React.ComponentProps<"a">) => {
+    const isExternal = href?.startsWith("http");
+    if (isExternal)
+      return (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener"
+          className="text-primary hover:underline"
+        >
+          {children}
+        </a>
+      );
+    return (
+      <Link href={href || "#"} className="text-primary hover:underline">
+        {children}
+      </Link>
+    );
+  },
+  pre: ({ children, ...props }: React.ComponentProps<"pre">) => (
+    <pre {...props} className="relative z-10">
+      {children}
+    </pre>
+  ),
+  [CALLOUT_TAG]: Callout,
+  [CODE_BLOCK_TAG]: CodeBlockWrapper,
+  [CODE_GROUP_TAG]: ({
+    tabs,
+    children,
+  }: {
+    tabs: string;
+    children: React.ReactNode;
+  }) => <CodeGroup tabs={JSON.parse(tabs)}>{children}</CodeGroup>,
+  [ANNOTATION_TRIGGER_TAG]: CommentTrigger,
+} as Partial<Components>;
+
+/**
+ * Renders a doc's markdown on the server. Only the copy buttons and the
+ * annotation triggers/details are client components.
+ */
+export function DocContent({ markdown, className }: DocContentProps) {
+  const content = toJsxRuntime(markdownToHast(markdown), {
+    Fragment,
+    jsx,
+    jsxs,
+    components,
+  });
+
+  return (
+    <AnnotationProvider>
+      <div className={cn("documentation-article relative", className)}>
+        {content}
+      </div>
+    </AnnotationProvider>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import * as React from "react";
+import { usePathname, useRouter } from "next/navigation";
+import type { NavGroup } from "@/lib/docs-nav";
+import {
+  DocVersion,
+  switchVersionHref,
+  versionFromPathname,
+} from "@/lib/docs-versions";
+import { cn } from "@/lib/utils";
+
+export interface DocsVersionData extends DocVersion {
+  navigation: NavGroup[];
+  searchIndexUrl: string;
+  /* Slugs of the version's docs, to keep the page when switching */
+  slugs: string[];
+}
+
+const DocsVersionsContext = React.createContext<DocsVersionData[] | null>(null);
+
+interface DocsVersionsProviderProps {
+  /* Newest first, see `getDocVersions` */
+  versions: DocsVersionData[];
+  children: React.ReactNode;
+}
+
+export function DocsVersionsProvider({
+  versions,
+  children,
+}: DocsVersionsProviderProps) {
+  return (
+    <DocsVersionsContext.Provider value={versions}>
+      {children}
+    </DocsVersionsContext.Provider>
+  );
+}
+
+/**
+ * The docs version of the current page, or null outside the docs.
+ */
+export function useDocsVersion(): DocsVersionData | null {
+  const versions = React.useContext(DocsVersionsContext);
+  const pathname = usePathname();
+  if (!versions) return null;
+
+  const id = versionFromPathname(pathname);
+  return versions.find((version) => version.id === id) ?? versions[0];
+}
+
+export function VersionSwitcher({ className }: { className?: string }) {
+  const versions = React.useContext(DocsVersionsContext);
+  const current = useDocsVersion();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  if (!versions || !current || versions.length < 2) return null;
+
+  const onChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const target = versions.find(
+      (version) => version.id === event.target.value,
+    );
+    if (target) {
+      router.push(switchVersionHref(pathname, target.id, target.slugs));
+    }
+  };
+
+  return (
+    <select
+      value={current.id}
+      onChange={onChange}
+      aria-label="Documentation version"
+      className={cn(
+        "h-8 rounded-md border border-input bg-background px-2 text-xs font-medium shadow-sm transition-colors focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-ring",
+        className,
+      )}
+    >
+      {versions.map((version) => (
+        <option key={version.id} value={version.id}>
+          {version.label}
+        </option>
+      ))}
+    </select>
+  );
+}
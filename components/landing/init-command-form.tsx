@@ -0,0 +1,177 @@
+"use client";
+
+import * as React from "react";
+import { AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CodeBlock } from "@/components/ui/code-block";
+import {
+  DEFAULT_INIT_OPTIONS,
+  INIT_LANGUAGES,
+  InitOptions,
+  PACKAGE_MANAGERS,
+  getDevCommand,
+  getInitCommand,
+  getInstallCommand,
+  getSysConfig,
+  validateInitOptions,
+} from "@/lib/xfpm-init";
+
+const inputClassName =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-sm shadow-sm transition-colors focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-ring";
+
+interface FieldProps {
+  id: keyof InitOptions;
+  label: string;
+  error?: string;
+  className?: string;
+  children: (props: {
+    id: string;
+    className: string;
+    "aria-invalid"?: boolean;
+    "aria-describedby"?: string;
+  }) => React.ReactNode;
+}
+
+function Field({ id, label, error, className, children }: FieldProps) {
+  const inputId = `init-${id}`;
+  return (
+    <div className={cn("space-y-1", className)}>
+      <label htmlFor={inputId} className="text-xs font-medium">
+        {label}
+      </label>
+      {children({
+        id: inputId,
+        className: cn(inputClassName, error && "border-red-500/70"),
+        "aria-invalid": error ? true : undefined,
+        "aria-describedby": error ? `${inputId}-error` : undefined,
+      })}
+      {error && (
+        <p
+          id={`${inputId}-error`}
+          className="flex items-center gap-1 text-xs text-red-500"
+        >
+          <AlertCircle className="h-3 w-3 shrink-0" aria-hidden="true" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The CLI steps of the Quick Start, built live from a small form: the
+ * CLI install for the chosen package manager, the `xfpm init` command
+ * and the `__sys__` config it sets up.
+ */
+export function InitCommandForm() {
+  const [options, setOptions] =
+    React.useState<InitOptions>(DEFAULT_INIT_OPTIONS);
+  const errors = validateInitOptions(options);
+  const valid = Object.keys(errors).length === 0;
+
+  const update =
+    (key: keyof InitOptions) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setOptions((current) => ({ ...current, [key]: event.target.value }));
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="grid gap-3 sm:grid-cols-2"
+        onSubmit={(event) => event.preventDefault()}
+        aria-label="xfpm init options"
+      >
+        <Field id="name" label="Project name" error={errors.name}>
+          {(props) => (
+            <input
+              {...props}
+              value={options.name}
+              onChange={update("name")}
+              spellCheck={false}
+            />
+          )}
+        </Field>
+        <Field id="port" label="Port" error={errors.port}>
+          {(props) => (
+            <input
+              {...props}
+              value={options.port}
+              onChange={update("port")}
+              inputMode="numeric"
+            />
+          )}
+        </Field>
+        <Field id="author" label="Author">
+          {(props) => (
+            <input
+              {...props}
+              value={options.author}
+              onChange={update("author")}
+            />
+          )}
+        </Field>
+        <Field id="language" label="Template">
+          {(props) => (
+            <select
+              {...props}
+              value={options.language}
+              onChange={update("language")}
+            >
+              {INIT_LANGUAGES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          )}
+        </Field>
+        <Field id="description" label="Description" className="sm:col-span-2">
+          {(props) => (
+            <input
+              {...props}
+              value={options.description}
+              onChange={update("description")}
+            />
+          )}
+        </Field>
+        <Field id="packageManager" label="Package manager">
+          {(props) => (
+            <select
+              {...props}
+              value={options.packageManager}
+              onChange={update("packageManager")}
+            >
+              {PACKAGE_MANAGERS.map((packageManager) => (
+                <option key={packageManager} value={packageManager}>
+                  {packageManager}
+                </option>
+              ))}
+            </select>
+          )}
+        </Field>
+      </form>
+
+      <div>
+        <p className="mb-2 text-sm font-medium">1. Install the CLI</p>
+        <CodeBlock code={getInstallCommand(options.packageManager)} />
+      </div>
+      <div className={cn(!valid && "opacity-60")}>
+        <p className="mb-2 text-sm font-medium">2. Create a new project</p>
+        <CodeBlock code={getInitCommand(options)} />
+      </div>
+      <div>
+        <p className="mb-2 text-sm font-medium">3. Start development server</p>
+        <CodeBlock code={getDevCommand(options)} />
+      </div>
+      <div className={cn(!valid && "opacity-60")}>
+        <p className="mb-2 text-sm font-medium">
+          Resulting <code className="text-xs">__sys__</code> config
+        </p>
+        <CodeBlock
+          language="json"
+          code={JSON.stringify(getSysConfig(options), null, 2)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -12,8 +12,17 @@ import { QuickStartSection } from "@/components/landing/quick-start-section";
 import { DocsSection } from "@/components/landing/docs-section";
 import { CommunitySection } from "@/components/landing/community-section";
 import { LandingFooter } from "@/components/landing/footer";
+import type { NavGroup } from "@/lib/docs-nav";
 
-export function LandingPageClient() {
+interface LandingPageClientProps {
+  searchIndexUrl: string;
+  navigation: NavGroup[];
+}
+
+export function LandingPageClient({
+  searchIndexUrl,
+  navigation,
+}: LandingPageClientProps) {
   const { scrollYProgress } = useScroll();
   const scaleProgress = useTransform(scrollYProgress, [0, 1], [1, 0.95]);
   const opacityProgress = useTransform(scrollYProgress, [0, 0.5], [1, 0.8]);
@@ -53,7 +62,7 @@ export function LandingPageClient() {
         style={{ scale: scaleProgress, opacity: opacityProgress }}
         className="sticky top-0 z-50"
       >
-        <SiteHeader />
+        <SiteHeader searchIndexUrl={searchIndexUrl} navigation={navigation} />
       </motion.div>
 
       <main className="flex-1">
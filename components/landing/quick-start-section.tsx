@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/card";
 import { CodeBlock } from "@/components/ui/code-block";
 import { fadeInUp, staggerContainer } from "./animations";
+import { InitCommandForm } from "./init-command-form";
 
 export function QuickStartSection() {
   return (
@@ -48,25 +49,8 @@ export function QuickStartSection() {
                     The fastest way to get started with XyPriss
                   </CardDescription>
                 </CardHeader>
-                <CardContent className="space-y-4">
-                  <div>
-                    <p className="mb-2 text-sm font-medium">
-                      1. Install the CLI
-                    </p>
-                    <CodeBlock code="npm install -g xypriss-cli" />
-                  </div>
-                  <div>
-                    <p className="mb-2 text-sm font-medium">
-                      2. Create a new project
-                    </p>
-                    <CodeBlock code="xfpm init --name my-app --port 4567 --author Nehonix-Team --desc 'A starter XyPriss server for building secure web applications'" />
-                  </div>
-                  <div>
-                    <p className="mb-2 text-sm font-medium">
-                      3. Start development server
-                    </p>
-                    <CodeBlock code="cd my-app && xfpm dev" />
-                  </div>
+                <CardContent>
+                  <InitCommandForm />
                 </CardContent>
               </Card>
             </motion.div>
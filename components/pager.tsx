@@ -1,6 +1,7 @@
 import Link from "next/link";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { getAllDocs } from "@/lib/doc-helper";
+import { splitVersion } from "@/lib/docs-versions";
 import { cn } from "@/lib/utils";
 
 interface PagerProps {
@@ -8,7 +9,8 @@ interface PagerProps {
 }
 
 export function Pager({ slug }: PagerProps) {
-  const docs = getAllDocs();
+  // Page through the version being read
+  const docs = getAllDocs(splitVersion(slug).version);
 
   const activeIndex = docs.findIndex((doc) => doc.slug === slug);
 
@@ -55,10 +55,25 @@ function SearchHighlightContent() {
         "p, li, h1, h2, h3, h4, strong, code, span",
       );
 
+      // Section-level results deep-link to a heading: only look from there on
+      const anchor = decodeURIComponent(window.location.hash.slice(1));
+      const sectionStart = anchor ? document.getElementById(anchor) : null;
+
       let foundElement: HTMLElement | null = null;
 
       for (const el of Array.from(elements)) {
         const htmlElement = el as HTMLElement;
+
+        if (
+          sectionStart &&
+          !sectionStart.contains(htmlElement) &&
+          !(
+            sectionStart.compareDocumentPosition(htmlElement) &
+            Node.DOCUMENT_POSITION_FOLLOWING
+          )
+        ) {
+          continue;
+        }
         const text = htmlElement.innerText; // Use original case for better text flow check
 
         if (text.toLowerCase().includes(searchTerm)) {
@@ -13,44 +13,58 @@ import {
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
-
-interface SearchResult {
-  title: string;
-  slug: string;
-  description: string;
-  snippet: string;
-  score: number;
+import { loadSearcher } from "@/lib/search-client";
+import {
+  SearchResult,
+  Searcher,
+  getResultHref,
+  runSearch,
+} from "@/lib/search-engine";
+import { parseSearchQuery } from "@/lib/search-query";
+import { useDocsVersion } from "./docs-versions";
+
+interface SearchResultsSidebarProps {
+  indexUrl: string;
 }
 
-export function SearchResultsSidebar() {
+export function SearchResultsSidebar(props: SearchResultsSidebarProps) {
+  // Search the version of the page being read
+  const indexUrl = useDocsVersion()?.searchIndexUrl ?? props.indexUrl;
   const searchParams = useSearchParams();
   const query = searchParams.get("q") || searchParams.get("query");
 
-  const [results, setResults] = React.useState<SearchResult[]>([]);
-  const [loading, setLoading] = React.useState(false);
+  const [loaded, setLoaded] = React.useState<{
+    url: string;
+    searcher: Searcher | null;
+  } | null>(null);
 
+  // The index is only downloaded once someone actually searches
   React.useEffect(() => {
-    if (!query) {
-      setResults([]);
-      return;
-    }
-
-    const fetchResults = async () => {
-      setLoading(true);
-      try {
-        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
-        const data = await res.json();
-        setResults(data);
-      } catch (err) {
+    if (!query || loaded?.url === indexUrl) return;
+
+    let cancelled = false;
+    loadSearcher(indexUrl)
+      .then((searcher) => {
+        if (!cancelled) setLoaded({ url: indexUrl, searcher });
+      })
+      .catch((err) => {
         console.error("Search failed", err);
-      } finally {
-        setLoading(false);
-      }
+        if (!cancelled) setLoaded({ url: indexUrl, searcher: null });
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [query, indexUrl, loaded]);
 
-    const timer = setTimeout(fetchResults, 300);
-    return () => clearTimeout(timer);
-  }, [query]);
+  const searcher = loaded?.url === indexUrl ? loaded.searcher : null;
+  const loading = !!query && loaded?.url !== indexUrl;
+
+  const parsed = React.useMemo(() => parseSearchQuery(query || ""), [query]);
+  const results = React.useMemo(
+    () => (searcher ? runSearch(searcher, parsed) : []),
+    [parsed, searcher],
+  );
 
   if (!query) return null;
 
@@ -86,6 +100,26 @@ export function SearchResultsSidebar() {
             </>
           )}
         </p>
+        {(parsed.filters.length > 0 || parsed.exclusions.length > 0) && (
+          <div className="flex flex-wrap gap-1.5 mt-3">
+            {parsed.filters.map((filter) => (
+              <span
+                key={`${filter.key}:${filter.value}`}
+                className="text-[9px] font-mono text-amber-500/90 bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded-full"
+              >
+                {filter.key}:{filter.value}
+              </span>
+            ))}
+            {parsed.exclusions.map((term) => (
+              <span
+                key={`-${term}`}
+                className="text-[9px] font-mono text-zinc-500 bg-zinc-950/50 border border-white/5 px-2 py-0.5 rounded-full line-through"
+              >
+                {term}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Results List */}
@@ -93,13 +127,13 @@ export function SearchResultsSidebar() {
         <AnimatePresence mode="popLayout">
           {results.map((result: SearchResult, idx: number) => (
             <motion.div
-              key={`${result.slug}-${idx}`}
+              key={`${result.slug}#${result.anchor}-${idx}`}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: idx * 0.04, type: "spring", damping: 20 }}
             >
               <Link
-                href={`/docs/${result.slug}${result.slug ? "" : ""}?q=${encodeURIComponent(query!)}&kw=${encodeURIComponent(query!)}`}
+                href={getResultHref(result, query)}
                 className="group block space-y-3"
               >
                 <div className="flex items-center justify-between gap-4">
@@ -111,6 +145,13 @@ export function SearchResultsSidebar() {
                   </div>
                 </div>
 
+                {result.heading && (
+                  <div className="flex items-center gap-1.5 text-[11px] font-semibold text-amber-500/80">
+                    <Hash className="w-3 h-3 shrink-0" />
+                    <span className="truncate">{result.heading}</span>
+                  </div>
+                )}
+
                 <p className="text-[11px] leading-relaxed text-zinc-400 line-clamp-3 font-medium selection:bg-amber-500/30">
                   {result.snippet}
                 </p>
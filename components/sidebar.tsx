@@ -2,16 +2,22 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { docsConfig } from "@/lib/docs-config";
+import type { NavGroup } from "@/lib/docs-nav";
 import { cn } from "@/lib/utils";
+import { useDocsVersion } from "./docs-versions";
 
-export function Sidebar() {
+interface SidebarProps {
+  groups: NavGroup[];
+}
+
+export function Sidebar(props: SidebarProps) {
+  const groups = useDocsVersion()?.navigation ?? props.groups;
   const pathname = usePathname();
 
   return (
     <aside className="fixed top-14 z-30 -ml-2 hidden h-[calc(100vh-3.5rem)] w-full shrink-0 md:sticky md:block border-r border-border/40">
       <div className="h-full overflow-y-auto py-6 pr-6 lg:py-8">
-        {docsConfig.map((group, index) => (
+        {groups.map((group, index) => (
           <div key={index} className="pb-4">
             <h4 className="mb-1 rounded-md px-2 py-1 text-sm font-semibold tracking-tight">
               {group.title}
@@ -7,8 +7,19 @@ import { Github, Moon, Sun } from "lucide-react";
 import { useTheme } from "next-themes";
 import { Button } from "./ui/button";
 import { SearchBar } from "./search-bar";
+import { VersionSwitcher, useDocsVersion } from "./docs-versions";
+import type { NavGroup } from "@/lib/docs-nav";
 
-export function SiteHeader() {
+interface SiteHeaderProps {
+  searchIndexUrl: string;
+  navigation: NavGroup[];
+}
+
+export function SiteHeader(props: SiteHeaderProps) {
+  // On docs pages, navigate and search the version being read
+  const docsVersion = useDocsVersion();
+  const searchIndexUrl = docsVersion?.searchIndexUrl ?? props.searchIndexUrl;
+  const navigation = docsVersion?.navigation ?? props.navigation;
   const { theme, setTheme } = useTheme();
 
   const toggleTheme = () => {
@@ -42,6 +53,12 @@ export function SiteHeader() {
             >
               Docs
             </Link>
+            <Link
+              href="/tools/config-builder"
+              className="text-muted-foreground transition-colors hover:text-foreground"
+            >
+              Config Builder
+            </Link>
             <Link
               href="https://github.com/Nehonix-Team"
               className="text-muted-foreground transition-colors hover:text-foreground"
@@ -57,11 +74,12 @@ export function SiteHeader() {
               <div className="h-9 w-full max-w-sm bg-zinc-900/50 rounded-full animate-pulse" />
             }
           >
-            <SearchBar />
+            <SearchBar indexUrl={searchIndexUrl} navigation={navigation} />
           </React.Suspense>
         </div>
 
         <div className="flex items-center gap-2">
+          <VersionSwitcher className="hidden sm:block" />
           <Button variant="ghost" size="sm" onClick={toggleTheme}>
             <Sun className="h-4 w-4 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
             <Moon className="absolute h-4 w-4 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
@@ -0,0 +1,184 @@
+"use client";
+
+import * as React from "react";
+import { useSearchParams } from "next/navigation";
+import { ChevronRight } from "lucide-react";
+import type { DocHeading } from "@/lib/headings";
+import { cn } from "@/lib/utils";
+
+interface TableOfContentsProps {
+  headings: DocHeading[];
+}
+
+interface TocEntry {
+  heading: DocHeading;
+  /* Deeper headings up to the next top-level one, collapsed by default */
+  children: DocHeading[];
+}
+
+/* Distance from the viewport top at which a heading becomes the active one,
+ * a little below the sticky header (headings use `scroll-mt-24`) */
+const ACTIVE_OFFSET = 120;
+
+function groupHeadings(headings: DocHeading[]): TocEntry[] {
+  const topDepth = Math.min(...headings.map((heading) => heading.depth));
+  const entries: TocEntry[] = [];
+
+  headings.forEach((heading) => {
+    const parent = entries[entries.length - 1];
+    if (heading.depth === topDepth || !parent) {
+      entries.push({ heading, children: [] });
+    } else {
+      parent.children.push(heading);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Tracks the heading the reader is currently in: the last one scrolled
+ * past `ACTIVE_OFFSET`.
+ */
+function useActiveHeading(ids: string[]): string | null {
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      let current: string | null = null;
+      for (const id of ids) {
+        const element = document.getElementById(id);
+        if (!element) continue;
+        if (element.getBoundingClientRect().top > ACTIVE_OFFSET) break;
+        current = id;
+      }
+      setActiveId(current);
+    };
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener("scroll", onScroll, { passive: true });
+    window.addEventListener("resize", onScroll);
+    return () => {
+      window.removeEventListener("scroll", onScroll);
+      window.removeEventListener("resize", onScroll);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [ids]);
+
+  return activeId;
+}
+
+export function TableOfContents({ headings }: TableOfContentsProps) {
+  const searchParams = useSearchParams();
+  const query = searchParams.get("q") || searchParams.get("query");
+
+  const entries = React.useMemo(() => groupHeadings(headings), [headings]);
+  const ids = React.useMemo(
+    () => headings.map((heading) => heading.id),
+    [headings],
+  );
+  const activeId = useActiveHeading(ids);
+  const [toggled, setToggled] = React.useState<Record<string, boolean>>({});
+  const listRef = React.useRef<HTMLDivElement>(null);
+
+  // Keep the active entry visible in long lists
+  React.useEffect(() => {
+    const list = listRef.current;
+    const link = activeId
+      ? list?.querySelector<HTMLElement>(`[data-heading="${activeId}"]`)
+      : null;
+    if (!list || !link) return;
+
+    if (link.offsetTop < list.scrollTop) {
+      list.scrollTop = link.offsetTop;
+    } else if (
+      link.offsetTop + link.offsetHeight >
+      list.scrollTop + list.clientHeight
+    ) {
+      list.scrollTop = link.offsetTop + link.offsetHeight - list.clientHeight;
+    }
+  }, [activeId]);
+
+  // Search results take over this column
+  if (query || entries.length === 0) return null;
+
+  const renderLink = (heading: DocHeading, indent: number) => (
+    <a
+      key={heading.id}
+      href={`#${heading.id}`}
+      data-heading={heading.id}
+      aria-current={heading.id === activeId ? "location" : undefined}
+      style={{ paddingLeft: `${0.75 + indent * 0.75}rem` }}
+      className={cn(
+        "block border-l py-1 pr-2 -ml-px transition-colors",
+        heading.id === activeId
+          ? "border-amber-500 text-foreground font-medium"
+          : "border-transparent text-muted-foreground hover:text-foreground",
+      )}
+    >
+      {heading.text}
+    </a>
+  );
+
+  return (
+    <nav
+      aria-label="On this page"
+      className="sticky top-24 hidden xl:flex flex-col max-h-[calc(100vh-10rem)] w-[280px] text-sm"
+    >
+      <h4 className="mb-3 px-3 text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+        On this page
+      </h4>
+      <div
+        ref={listRef}
+        className="relative overflow-y-auto border-l border-border/40 scrollbar-none"
+      >
+        {entries.map(({ heading, children }) => {
+          const containsActive = children.some(
+            (child) => child.id === activeId,
+          );
+          const expanded =
+            toggled[heading.id] ?? (containsActive || heading.id === activeId);
+
+          return (
+            <div key={heading.id}>
+              <div className="flex items-center">
+                <div className="flex-1 min-w-0">{renderLink(heading, 0)}</div>
+                {children.length > 0 && (
+                  <button
+                    type="button"
+                    aria-expanded={expanded}
+                    aria-label={`${expanded ? "Collapse" : "Expand"} ${heading.text}`}
+                    onClick={() =>
+                      setToggled((prev) => ({
+                        ...prev,
+                        [heading.id]: !expanded,
+                      }))
+                    }
+                    className="p-1 text-muted-foreground hover:text-foreground"
+                  >
+                    <ChevronRight
+                      className={cn(
+                        "h-3 w-3 transition-transform",
+                        expanded && "rotate-90",
+                      )}
+                    />
+                  </button>
+                )}
+              </div>
+              {expanded &&
+                children.map((child) =>
+                  renderLink(child, child.depth - heading.depth),
+                )}
+            </div>
+          );
+        })}
+      </div>
+    </nav>
+  );
+}
@@ -0,0 +1,706 @@
+"use client";
+
+import * as React from "react";
+import { createPortal } from "react-dom";
+import { Check, GitBranch, Link2, X, Zap } from "lucide-react";
+import Link from "next/link";
+import { motion, AnimatePresence } from "framer-motion";
+import { NOTE_ANCHOR_PREFIX, noteAnchor } from "@/lib/annotations";
+import { cn } from "@/lib/utils";
+
+/*
+ * An open note is addressed as `#note-<id>` (or `?note=<id>`), pointing at
+ * its master trigger. Such links, from prose or from another note, open it.
+ */
+function noteFromUrl(url: URL): string | null {
+  if (url.hash.startsWith(`#${NOTE_ANCHOR_PREFIX}`)) {
+    return decodeURIComponent(
+      url.hash.substring(NOTE_ANCHOR_PREFIX.length + 1),
+    );
+  }
+  return url.searchParams.get("note");
+}
+
+/**
+ * Keeps the address bar pointing at the open note, without a navigation.
+ * A heading anchor already in the URL is left alone when a note closes.
+ */
+function writeNoteToUrl(id: string | null) {
+  const url = new URL(window.location.href);
+  const current = noteFromUrl(url);
+  if (id === current) return;
+
+  url.searchParams.delete("note");
+  if (id) url.hash = noteAnchor(id);
+  else if (current) url.hash = "";
+  window.history.replaceState(null, "", url);
+}
+
+function noteDetailsId(id: string) {
+  return `${noteAnchor(id)}-details`;
+}
+
+/* Below Tailwind's `sm`, notes open inline under their trigger instead of
+ * floating next to the code */
+const NARROW_VIEWPORT_QUERY = "(max-width: 639px)";
+
+function subscribeToViewport(onChange: () => void) {
+  const query = window.matchMedia(NARROW_VIEWPORT_QUERY);
+  query.addEventListener("change", onChange);
+  return () => query.removeEventListener("change", onChange);
+}
+
+function useNarrowViewport() {
+  return React.useSyncExternalStore(
+    subscribeToViewport,
+    () => window.matchMedia(NARROW_VIEWPORT_QUERY).matches,
+    () => false,
+  );
+}
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keeps Tab and Shift+Tab cycling inside `container`.
+ */
+function trapFocus(event: React.KeyboardEvent, container: HTMLElement) {
+  if (event.key !== "Tab") return;
+  const focusable = Array.from(
+    container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR),
+  );
+  if (focusable.length === 0) {
+    event.preventDefault();
+    return;
+  }
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = document.activeElement;
+  if (event.shiftKey && (active === first || active === container)) {
+    event.preventDefault();
+    last.focus();
+  } else if (!event.shiftKey && active === last) {
+    event.preventDefault();
+    first.focus();
+  }
+}
+
+/* Length of the note text read out in a trigger's label */
+const LABEL_EXCERPT_LENGTH = 60;
+
+/**
+ * Start of a note as plain text, links reduced to their label.
+ */
+function noteExcerpt(content: string): string {
+  const text = content
+    .replace(/<link to="[^"]+">([\s\S]*?)<\/link>/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > LABEL_EXCERPT_LENGTH
+    ? `${text.substring(0, LABEL_EXCERPT_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+/**
+ * Parses <link to="...">label</link> inside comment strings
+ */
+function parseCommentContent(content: string) {
+  if (!content) return "";
+  const parts = content.split(/(<link to="[^"]+">.*?<\/link>)/g);
+  return parts.map((part, i) => {
+    const match = part.match(/<link to="([^"]+)">([\s\S]*?)<\/link>/);
+    if (match) {
+      const url = match[1];
+      const label = match[2];
+      const isExternal = url.startsWith("http");
+      if (isExternal) {
+        return (
+          <a
+            key={i}
+            href={url}
+            target="_blank"
+            rel="noopener"
+            className="text-amber-400 font-bold underline decoration-amber-400/30 hover:decoration-amber-400 transition-all mx-1"
+          >
+            {label}
+          </a>
+        );
+      }
+      return (
+        <Link
+          key={i}
+          href={url}
+          className="text-amber-400 font-bold underline decoration-amber-400/30 hover:decoration-amber-400 transition-all mx-1"
+        >
+          {label}
+        </Link>
+      );
+    }
+    return part;
+  });
+}
+
+/**
+ * Header and text of an open note, shared by the floating dialog and the
+ * inline panel used on small screens. Spans only, as the panel can sit
+ * inside a line of code or a paragraph.
+ */
+function NoteCard({
+  id,
+  content,
+  onClose,
+}: {
+  id: string;
+  content: string;
+  onClose: () => void;
+}) {
+  const [copied, setCopied] = React.useState(false);
+
+  const copyLink = async () => {
+    const url = new URL(window.location.href);
+    url.search = "";
+    url.hash = noteAnchor(id);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Copy failed", err);
+    }
+  };
+
+  return (
+    <span className="flex flex-col gap-4">
+      <span className="flex items-center justify-between">
+        <span className="flex items-center gap-2.5">
+          <span className="block p-2 rounded-xl bg-amber-500/20 shadow-inner">
+            <Zap aria-hidden className="w-4 h-4 text-amber-500" />
+          </span>
+          <span
+            id={`${noteDetailsId(id)}-title`}
+            className="text-[11px] font-black uppercase tracking-[0.3em] text-amber-500/90 shadow-current"
+          >
+            Internal Details
+          </span>
+        </span>
+        <span className="flex items-center gap-1">
+          <span role="status" className="sr-only">
+            {copied ? "Link copied" : ""}
+          </span>
+          <button
+            type="button"
+            onClick={copyLink}
+            aria-label="Copy link to this note"
+            title={copied ? "Link copied" : "Copy link to this note"}
+            className="p-1.5 hover:bg-white/10 rounded-full transition-all"
+          >
+            {copied ? (
+              <Check aria-hidden className="w-4 h-4 text-green-500" />
+            ) : (
+              <Link2
+                aria-hidden
+                className="w-4 h-4 text-zinc-500 hover:text-white"
+              />
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close note"
+            className="p-1.5 hover:bg-white/10 rounded-full transition-all hover:rotate-90"
+          >
+            <X aria-hidden className="w-4 h-4 text-zinc-500 hover:text-white" />
+          </button>
+        </span>
+      </span>
+      <span className="block text-sm font-semibold leading-relaxed text-zinc-100/90 whitespace-pre-line">
+        {parseCommentContent(content)}
+      </span>
+    </span>
+  );
+}
+
+/**
+ * Portal Overlay Component for Internal Comments
+ */
+const CommentOverlay = ({
+  id,
+  content,
+  isOpen,
+  onClose,
+  triggerRects,
+}: {
+  id: string;
+  content: string;
+  isOpen: boolean;
+  onClose: () => void;
+  triggerRects: DOMRect[];
+}) => {
+  const [mounted, setMounted] = React.useState(false);
+  const dialogRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // Move focus into the dialog when it opens and give it back on close
+  React.useEffect(() => {
+    if (!mounted) return;
+    const previous =
+      document.activeElement instanceof HTMLElement
+        ? document.activeElement
+        : null;
+    dialogRef.current?.focus({ preventScroll: true });
+    return () => previous?.focus({ preventScroll: true });
+  }, [mounted]);
+
+  if (!mounted || triggerRects.length === 0) return null;
+
+  // Kept inside the viewport, the panel being 20rem wide
+  const primaryRect = triggerRects[0];
+  const overlayX = Math.max(
+    16,
+    Math.min(window.innerWidth - 336, primaryRect.right + 120),
+  );
+  const overlayY = Math.max(
+    16,
+    Math.min(window.innerHeight - 240, primaryRect.top - 80),
+  );
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[1000] pointer-events-none">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-transparent pointer-events-auto"
+          />
+
+          <svg
+            aria-hidden
+            className="absolute inset-0 w-full h-full pointer-events-none overflow-visible"
+          >
+            {triggerRects.map((rect, idx) => (
+              <motion.path
+                key={`${id}-${idx}`}
+                initial={{ pathLength: 0, opacity: 0, strokeDashoffset: 0 }}
+                animate={{
+                  pathLength: 1,
+                  opacity: 1,
+                  strokeDashoffset: [0, -30],
+                }}
+                exit={{ pathLength: 0, opacity: 0 }}
+                transition={{
+                  pathLength: { duration: 0.8, ease: "easeInOut" },
+                  opacity: { duration: 0.4 },
+                  strokeDashoffset: {
+                    duration: 1.5,
+                    repeat: Infinity,
+                    ease: "linear",
+                  },
+                }}
+                d={`M ${rect.left + rect.width / 2} ${rect.top + rect.height / 2} 
+                   C ${rect.left + rect.width / 2 + 80} ${rect.top + rect.height / 2}, 
+                     ${overlayX} ${overlayY + 120}, 
+                     ${overlayX} ${overlayY + 40}`}
+                fill="none"
+                stroke="url(#amber-grad)"
+                strokeWidth="2.5"
+                strokeDasharray="6 6"
+              />
+            ))}
+            <defs>
+              <linearGradient
+                id="amber-grad"
+                x1="0%"
+                y1="0%"
+                x2="100%"
+                y2="100%"
+              >
+                <stop offset="0%" stopColor="#f59e0b" stopOpacity="0.9" />
+                <stop offset="100%" stopColor="#f59e0b" stopOpacity="0.1" />
+              </linearGradient>
+            </defs>
+          </svg>
+
+          <motion.div
+            initial={{
+              opacity: 0,
+              scale: 0.8,
+              x: primaryRect.left,
+              y: primaryRect.top,
+              filter: "blur(10px)",
+            }}
+            animate={{
+              opacity: 1,
+              scale: 1,
+              x: overlayX,
+              y: overlayY,
+              filter: "blur(0px)",
+            }}
+            exit={{
+              opacity: 0,
+              scale: 0.8,
+              x: primaryRect.left,
+              y: primaryRect.top,
+              filter: "blur(10px)",
+            }}
+            transition={{ type: "spring", damping: 20, stiffness: 200 }}
+            className="absolute pointer-events-auto w-80"
+          >
+            <div
+              ref={dialogRef}
+              id={noteDetailsId(id)}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby={`${noteDetailsId(id)}-title`}
+              tabIndex={-1}
+              onKeyDown={(event) => {
+                if (event.key === "Escape") {
+                  event.stopPropagation();
+                  onClose();
+                } else if (dialogRef.current) {
+                  trapFocus(event, dialogRef.current);
+                }
+              }}
+              className="relative p-6 rounded-2xl outline-none bg-[#0d1117]/95 backdrop-blur-3xl border border-amber-500/40 shadow-[0_40px_80px_-20px_rgba(0,0,0,0.9),0_0_30px_rgba(245,158,11,0.2)] ring-1 ring-white/10"
+            >
+              <div className="absolute inset-x-0 -top-px h-px bg-gradient-to-r from-transparent via-amber-500/60 to-transparent" />
+              <NoteCard id={id} content={content} onClose={onClose} />
+              <div className="absolute -left-1.5 bottom-12 w-3 h-3 rounded-full bg-amber-500 shadow-[0_0_15px_#f59e0b,inset_0_0_5px_white]" />
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body,
+  );
+};
+
+// --- Store for coordination ---
+
+class CommentStore {
+  subscribers: Set<() => void> = new Set();
+  isOpen: { [id: string]: boolean } = {};
+  contents: { [id: string]: string } = {};
+  /* Notes numbered in the order their master triggers register */
+  numbers: { [id: string]: number } = {};
+  triggers: { [id: string]: Map<string, DOMRect> } = {};
+  /* Trigger a note was opened from, where its inline panel goes */
+  openedFrom: { [id: string]: string } = {};
+
+  subscribe(fn: () => void) {
+    this.subscribers.add(fn);
+    return () => {
+      this.subscribers.delete(fn);
+    };
+  }
+
+  notify() {
+    this.subscribers.forEach((fn) => {
+      fn();
+    });
+  }
+
+  registerTrigger(id: string, triggerId: string, rect: DOMRect) {
+    if (!this.triggers[id]) this.triggers[id] = new Map();
+    const existing = this.triggers[id].get(triggerId);
+    if (
+      !existing ||
+      Math.abs(existing.top - rect.top) > 1 ||
+      Math.abs(existing.left - rect.left) > 1
+    ) {
+      this.triggers[id].set(triggerId, rect);
+      if (this.isOpen[id]) this.notify();
+    }
+  }
+
+  unregisterTrigger(id: string, triggerId: string) {
+    if (this.triggers[id]) {
+      this.triggers[id].delete(triggerId);
+    }
+  }
+
+  registerContent(id: string, content: string) {
+    if (content && !this.contents[id]) {
+      this.contents[id] = content;
+      this.numbers[id] = Object.keys(this.numbers).length + 1;
+      this.notify();
+    }
+  }
+
+  /* What a trigger announces, so notes can be told apart */
+  label(id: string, isSecondary: boolean): string {
+    const number = this.numbers[id];
+    const content = this.contents[id];
+    if (!number || !content) return isSecondary ? "Related note" : "Note";
+    const excerpt = noteExcerpt(content);
+    return isSecondary
+      ? `Related to note ${number}: ${excerpt}`
+      : `Note ${number}: ${excerpt}`;
+  }
+
+  /* Shows one note on its own, as when following a link to it */
+  open(id: string) {
+    this.isOpen = { [id]: true };
+    delete this.openedFrom[id];
+    this.notify();
+  }
+
+  toggle(id: string, content?: string, triggerId?: string) {
+    this.isOpen[id] = !this.isOpen[id];
+    if (content) this.contents[id] = content;
+    if (triggerId) this.openedFrom[id] = triggerId;
+    this.notify();
+  }
+}
+
+const CommentStoreContext = React.createContext<CommentStore | null>(null);
+
+/**
+ * Interactive Trigger Badge
+ */
+export function CommentTrigger({
+  id,
+  content,
+  isSecondary = false,
+}: {
+  id: string;
+  content?: string;
+  isSecondary?: boolean;
+}) {
+  const store = React.useContext(CommentStoreContext);
+  const narrow = useNarrowViewport();
+  const triggerRef = React.useRef<HTMLButtonElement>(null);
+  const triggerId = React.useMemo(
+    () => Math.random().toString(36).substr(2, 9),
+    [],
+  );
+  const [, forceUpdate] = React.useReducer((x) => x + 1, 0);
+
+  React.useEffect(() => {
+    if (!store) return;
+    const unsub = store.subscribe(() => {
+      forceUpdate();
+    });
+    if (!isSecondary && content) {
+      store.registerContent(id, content);
+    }
+    return () => {
+      unsub();
+    };
+  }, [store, id, content, isSecondary]);
+
+  const updateRect = React.useCallback(() => {
+    if (triggerRef.current && store) {
+      store.registerTrigger(
+        id,
+        triggerId,
+        triggerRef.current.getBoundingClientRect(),
+      );
+    }
+  }, [id, triggerId, store]);
+
+  React.useEffect(() => {
+    updateRect();
+    const handleScroll = () => {
+      updateRect();
+      if (store?.isOpen[id]) forceUpdate();
+    };
+    window.addEventListener("scroll", handleScroll, true);
+    window.addEventListener("resize", handleScroll);
+    return () => {
+      store?.unregisterTrigger(id, triggerId);
+      window.removeEventListener("scroll", handleScroll, true);
+      window.removeEventListener("resize", handleScroll);
+    };
+  }, [updateRect, id, triggerId, store]);
+
+  const isOpen = store?.isOpen[id] || false;
+  // On small screens the note unfolds under the trigger it was opened
+  // from, or under its master trigger when opened from a link
+  const openedFrom = store?.openedFrom[id];
+  const showsInline =
+    narrow && isOpen && (openedFrom ? openedFrom === triggerId : !isSecondary);
+
+  const close = () => {
+    if (!store?.isOpen[id]) return;
+    store.toggle(id);
+    writeNoteToUrl(null);
+    triggerRef.current?.focus();
+  };
+
+  return (
+    <>
+      <span className="inline-flex items-center relative mx-1.5 align-middle">
+        <motion.button
+          ref={triggerRef}
+          type="button"
+          id={isSecondary ? undefined : noteAnchor(id)}
+          aria-label={
+            store?.label(id, isSecondary) ??
+            (isSecondary ? "Related note" : "Note")
+          }
+          aria-haspopup={narrow ? undefined : "dialog"}
+          aria-expanded={isOpen}
+          aria-controls={isOpen ? noteDetailsId(id) : undefined}
+          whileHover={{ scale: 1.3, rotate: 20 }}
+          whileTap={{ scale: 0.9, rotate: -20 }}
+          onClick={() => {
+            if (!store) return;
+            store.toggle(id, content, triggerId);
+            writeNoteToUrl(store.isOpen[id] ? id : null);
+          }}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") close();
+          }}
+          className={cn(
+            "scroll-mt-32 w-4.5 h-4.5 rounded-full outline-none focus-visible:ring-2 focus-visible:ring-amber-400 flex items-center justify-center transition-all shadow-xl pointer-events-auto cursor-pointer border-2",
+            isOpen
+              ? "bg-amber-500 border-amber-300 text-black shadow-amber-500/60"
+              : cn(
+                  "bg-[#1a1b26] border-white/10 text-teal-400 hover:text-amber-400 hover:border-amber-500/50",
+                  isSecondary &&
+                    "bg-[#1a1b26]/50 border-dotted border-amber-500/40 text-amber-500/70",
+                ),
+          )}
+        >
+          {isSecondary ? (
+            <GitBranch
+              aria-hidden
+              className={cn("w-2.5 h-2.5", isOpen ? "text-black" : "")}
+            />
+          ) : (
+            <Zap
+              aria-hidden
+              className={cn(
+                "w-2.5 h-2.5",
+                isOpen ? "fill-current" : "animate-pulse",
+              )}
+            />
+          )}
+        </motion.button>
+      </span>
+      {showsInline && (
+        <span
+          id={noteDetailsId(id)}
+          role="region"
+          aria-labelledby={`${noteDetailsId(id)}-title`}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") close();
+          }}
+          className="block my-3 p-4 rounded-xl whitespace-normal font-sans bg-[#0d1117] border border-amber-500/40"
+        >
+          <NoteCard
+            id={id}
+            content={store?.contents[id] ?? content ?? ""}
+            onClose={close}
+          />
+        </span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Owns the annotations of a block of content: triggers rendered anywhere
+ * below it share one store, and open details are drawn from here.
+ */
+export function AnnotationProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const storeRef = React.useRef(new CommentStore());
+  const narrow = useNarrowViewport();
+  const [, forceUpdate] = React.useReducer((x) => x + 1, 0);
+
+  React.useEffect(() => {
+    return storeRef.current.subscribe(() => {
+      forceUpdate();
+    });
+  }, []);
+
+  // Open the note the URL points at, on load and when a link targets one.
+  // Triggers register their content in their own effects, which run first.
+  React.useEffect(() => {
+    const store = storeRef.current;
+
+    const openFromUrl = (url: URL) => {
+      const id = noteFromUrl(url);
+      if (!id || !store.contents[id]) return false;
+      store.open(id);
+      document
+        .getElementById(noteAnchor(id))
+        ?.scrollIntoView({ block: "center", behavior: "smooth" });
+      return true;
+    };
+
+    const onHashChange = () => openFromUrl(new URL(window.location.href));
+
+    // Captured before `next/link` handles the click, so a same-page note
+    // link opens the note instead of only scrolling to it
+    const onClick = (event: MouseEvent) => {
+      if (
+        event.defaultPrevented ||
+        event.button !== 0 ||
+        event.metaKey ||
+        event.ctrlKey ||
+        event.shiftKey ||
+        event.altKey
+      ) {
+        return;
+      }
+      const anchor = (event.target as Element | null)?.closest("a[href]");
+      if (!(anchor instanceof HTMLAnchorElement)) return;
+
+      const url = new URL(anchor.href);
+      if (
+        url.origin !== window.location.origin ||
+        url.pathname !== window.location.pathname
+      ) {
+        return;
+      }
+      if (openFromUrl(url)) {
+        event.preventDefault();
+        writeNoteToUrl(noteFromUrl(url));
+      }
+    };
+
+    openFromUrl(new URL(window.location.href));
+    window.addEventListener("hashchange", onHashChange);
+    document.addEventListener("click", onClick, true);
+    return () => {
+      window.removeEventListener("hashchange", onHashChange);
+      document.removeEventListener("click", onClick, true);
+    };
+  }, []);
+
+  return (
+    <CommentStoreContext.Provider value={storeRef.current}>
+      {children}
+
+      {Object.entries(storeRef.current.isOpen).map(([id, isOpen]) => {
+        if (!isOpen || narrow) return null;
+        const triggers = storeRef.current.triggers[id];
+        if (!triggers) return null;
+        return (
+          <CommentOverlay
+            key={id}
+            id={id}
+            isOpen={isOpen}
+            content={storeRef.current.contents[id]}
+            onClose={() => {
+              storeRef.current.toggle(id);
+              writeNoteToUrl(null);
+            }}
+            triggerRects={Array.from(triggers.values())}
+          />
+        );
+      })}
+    </CommentStoreContext.Provider>
+  );
+}
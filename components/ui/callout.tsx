@@ -0,0 +1,73 @@
+import * as React from "react";
+import {
+  Info,
+  Lightbulb,
+  OctagonAlert,
+  ShieldAlert,
+  TriangleAlert,
+  type LucideIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CALLOUT_TITLES, type CalloutType } from "@/lib/callouts";
+
+interface CalloutProps {
+  type?: CalloutType;
+  title?: string;
+  children: React.ReactNode;
+}
+
+const CALLOUT_STYLES: Record<
+  CalloutType,
+  { icon: LucideIcon; className: string; iconClassName: string }
+> = {
+  note: {
+    icon: Info,
+    className: "border-blue-500/40 bg-blue-500/5",
+    iconClassName: "text-blue-400",
+  },
+  tip: {
+    icon: Lightbulb,
+    className: "border-emerald-500/40 bg-emerald-500/5",
+    iconClassName: "text-emerald-400",
+  },
+  warning: {
+    icon: TriangleAlert,
+    className: "border-amber-500/40 bg-amber-500/5",
+    iconClassName: "text-amber-400",
+  },
+  caution: {
+    icon: OctagonAlert,
+    className: "border-red-500/40 bg-red-500/5",
+    iconClassName: "text-red-400",
+  },
+  security: {
+    icon: ShieldAlert,
+    className: "border-violet-500/40 bg-violet-500/5",
+    iconClassName: "text-violet-400",
+  },
+};
+
+function Callout({ type = "note", title, children }: CalloutProps) {
+  const style = CALLOUT_STYLES[type] ?? CALLOUT_STYLES.note;
+  const Icon = style.icon;
+  const label = title || CALLOUT_TITLES[type];
+
+  return (
+    <aside
+      role="note"
+      aria-label={label}
+      className={cn(
+        "callout my-6 rounded-xl border-l-4 border px-5 py-4 [&>p]:my-2 [&>p:last-child]:mb-0",
+        style.className,
+      )}
+    >
+      <p className="not-prose flex items-center gap-2 text-sm font-bold tracking-wide">
+        <Icon className={cn("h-4 w-4 shrink-0", style.iconClassName)} />
+        <span className={style.iconClassName}>{label}</span>
+      </p>
+      {children}
+    </aside>
+  );
+}
+
+export { Callout };
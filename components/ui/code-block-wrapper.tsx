@@ -0,0 +1,68 @@
+"use client";
+
+import * as React from "react";
+import { Check, Copy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "./button";
+
+/**
+ * Copy Wrapper. `code` is the text copied, annotations and line markers
+ * already stripped; `title` is the fence's `title=`, shown as a file name.
+ */
+export function CodeBlockWrapper({
+  code,
+  title,
+  children,
+}: {
+  code: string;
+  title?: string;
+  children: React.ReactNode;
+}) {
+  const [copied, setCopied] = React.useState(false);
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Copy failed", err);
+    }
+  };
+
+  return (
+    <div className="relative group my-8">
+      {title && (
+        <span className="absolute left-[5.5rem] top-[3.3rem] z-20 font-mono text-[11px] font-bold text-zinc-400">
+          {title}
+        </span>
+      )}
+      <div className="absolute right-6 top-6 z-50 opacity-0 group-hover:opacity-100 transition-all duration-200">
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={copyToClipboard}
+          className={cn(
+            "cursor-pointer h-8 px-2 flex items-center gap-1.5 bg-background/50 backdrop-blur-md border border-white/10 shadow-lg hover:bg-background/80 transition-all",
+            copied && "border-green-500/50 text-green-500",
+          )}
+        >
+          {copied ? (
+            <>
+              <Check className="size-3.5" />
+              <span className="text-[10px] font-bold">Copied!</span>
+            </>
+          ) : (
+            <>
+              <Copy className="size-3.5" />
+              <span className="text-[10px] font-bold uppercase tracking-wider">
+                Copy
+              </span>
+            </>
+          )}
+        </Button>
+      </div>
+      {children}
+    </div>
+  );
+}
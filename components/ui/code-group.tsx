@@ -0,0 +1,149 @@
+"use client";
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { CodeBlockWrapper } from "./code-block-wrapper";
+
+export interface CodeTab {
+  title: string;
+  /* Text copied while the tab is selected */
+  code: string;
+}
+
+interface CodeGroupProps {
+  tabs: CodeTab[];
+  /* One rendered block per tab, in the same order */
+  children: React.ReactNode;
+}
+
+/* Tab titles picked by the reader, most recent first (e.g. "xfpm", then
+ * "powershell"), so one choice applies to every group that offers it */
+const PREFERRED_TABS_KEY = "xypriss:code-tabs";
+const MAX_PREFERRED_TABS = 10;
+/* Same-tab counterpart of the `storage` event */
+const PREFERRED_TABS_EVENT = "xypriss:code-tabs-change";
+
+/* Used when localStorage is unavailable, so tabs still switch */
+let unsavedTabs: string | null = null;
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  window.addEventListener(PREFERRED_TABS_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", onChange);
+    window.removeEventListener(PREFERRED_TABS_EVENT, onChange);
+  };
+}
+
+function getStoredTabs(): string | null {
+  try {
+    return window.localStorage.getItem(PREFERRED_TABS_KEY) ?? unsavedTabs;
+  } catch {
+    return unsavedTabs;
+  }
+}
+
+function parsePreferredTabs(stored: string | null): string[] {
+  try {
+    const parsed = JSON.parse(stored || "[]");
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePreferredTab(title: string) {
+  const key = title.toLowerCase();
+  const preferred = [
+    key,
+    ...parsePreferredTabs(getStoredTabs()).filter((t) => t !== key),
+  ].slice(0, MAX_PREFERRED_TABS);
+  unsavedTabs = JSON.stringify(preferred);
+  try {
+    window.localStorage.setItem(PREFERRED_TABS_KEY, unsavedTabs);
+  } catch {
+    /* Private mode or full storage: the choice lasts until a reload */
+  }
+  window.dispatchEvent(new Event(PREFERRED_TABS_EVENT));
+}
+
+/**
+ * Consecutive titled code blocks shown as tabs in a single copy wrapper.
+ * The picked tab is remembered site-wide; until then (and on the server)
+ * the first tab is shown.
+ */
+export function CodeGroup({ tabs, children }: CodeGroupProps) {
+  const stored = React.useSyncExternalStore(
+    subscribe,
+    getStoredTabs,
+    () => null,
+  );
+  const baseId = React.useId();
+  const panels = React.Children.toArray(children);
+  // Tab clicked here, which tells apart tabs sharing a title
+  const [picked, setPicked] = React.useState<number | null>(null);
+
+  const activeIndex = React.useMemo(() => {
+    for (const title of parsePreferredTabs(stored)) {
+      const index = tabs.findIndex((tab) => tab.title.toLowerCase() === title);
+      if (index === -1) continue;
+      return picked !== null && tabs[picked]?.title.toLowerCase() === title
+        ? picked
+        : index;
+    }
+    return 0;
+  }, [stored, tabs, picked]);
+
+  const select = (index: number) => {
+    setPicked(index);
+    savePreferredTab(tabs[index].title);
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    const step =
+      event.key === "ArrowRight" ? 1 : event.key === "ArrowLeft" ? -1 : 0;
+    if (!step) return;
+    event.preventDefault();
+    const next = (activeIndex + step + tabs.length) % tabs.length;
+    select(next);
+    document.getElementById(`${baseId}-tab-${next}`)?.focus();
+  };
+
+  return (
+    <CodeBlockWrapper code={tabs[activeIndex]?.code ?? ""}>
+      <div
+        role="tablist"
+        onKeyDown={onKeyDown}
+        className="absolute left-[5.5rem] top-[3.3rem] z-20 flex gap-1"
+      >
+        {tabs.map((tab, index) => (
+          <button
+            key={`${index}-${tab.title}`}
+            id={`${baseId}-tab-${index}`}
+            type="button"
+            role="tab"
+            aria-selected={index === activeIndex}
+            aria-controls={`${baseId}-panel`}
+            tabIndex={index === activeIndex ? 0 : -1}
+            onClick={() => select(index)}
+            className={cn(
+              "cursor-pointer rounded-md px-2.5 py-0.5 font-mono text-[11px] font-bold transition-colors",
+              index === activeIndex
+                ? "bg-blue-500/15 text-blue-300 ring-1 ring-blue-500/30"
+                : "text-zinc-500 hover:text-zinc-300",
+            )}
+          >
+            {tab.title}
+          </button>
+        ))}
+      </div>
+      <div
+        id={`${baseId}-panel`}
+        role="tabpanel"
+        aria-labelledby={`${baseId}-tab-${activeIndex}`}
+      >
+        {panels[activeIndex]}
+      </div>
+    </CodeBlockWrapper>
+  );
+}
@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Loosely typed on purpose: a stub of the XyPriss API for docs:examples
+    "scripts/doc-examples/**",
   ]),
 ]);
 
@@ -0,0 +1,88 @@
+/*
+ * Code annotations, written inline in fenced code:
+ *
+ *   [!#id::Detail]         master trigger (single line)
+ *   [!#id::Line 1 ... /!]  master trigger (multi-line)
+ *   [!^id::]               secondary trigger pointing at the same detail
+ *
+ * Parsing lives here so the server renderer and the client `CodeBlock`
+ * read them the same way.
+ */
+
+export const ANNOTATION_TAG_REGEX =
+  /(\[!#[\w-]+::[\s\S]*?\/!\]|\[!#[\w-]+::.*?\]|\[!\^[\w-]+::\])/g;
+
+/* Fragment addressing an open note: `#note-<id>` */
+export const NOTE_ANCHOR_PREFIX = "note-";
+
+export function noteAnchor(id: string): string {
+  return `${NOTE_ANCHOR_PREFIX}${id}`;
+}
+
+/**
+ * Anchors of the notes a markdown document defines, one per master trigger.
+ */
+export function noteAnchors(markdown: string): string[] {
+  return Array.from(markdown.matchAll(/\[!#([\w-]+)::/g), (m) =>
+    noteAnchor(m[1]),
+  );
+}
+
+export type CodePart =
+  | { type: "code"; content: string }
+  | { type: "master"; id: string; content: string }
+  | { type: "secondary"; id: string };
+
+export function splitByTags(text: string): CodePart[] {
+  const parts: CodePart[] = [];
+  const regex = new RegExp(ANNOTATION_TAG_REGEX.source, "g");
+  let lastIndex = 0;
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({
+        type: "code",
+        content: text.substring(lastIndex, match.index),
+      });
+    }
+    const fullTag = match[0];
+    if (fullTag.startsWith("[!#") && fullTag.endsWith("/!]")) {
+      const g = fullTag.match(/\[!#([\w-]+)::([\s\S]*?)\/!\]/);
+      if (g) parts.push({ type: "master", id: g[1], content: g[2].trim() });
+    } else if (fullTag.startsWith("[!#")) {
+      const g = fullTag.match(/\[!#([\w-]+)::(.*?)\]/);
+      if (g) parts.push({ type: "master", id: g[1], content: g[2].trim() });
+    } else if (fullTag.startsWith("[!^")) {
+      const g = fullTag.match(/\[!\^([\w-]+)::\]/);
+      if (g) parts.push({ type: "secondary", id: g[1] });
+    }
+    lastIndex = regex.lastIndex;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: "code", content: text.substring(lastIndex) });
+  }
+
+  return parts;
+}
+
+/**
+ * Code as it should be copied: annotation tags removed, along with the
+ * comment markers that only existed to hold them.
+ */
+export function stripAnnotations(code: string): string {
+  let result = code.replace(
+    /(?:\/\/|#|--|\/\*)\s*\[!#[\w-]+::[\s\S]*?\/!\](?:\n|$)/g,
+    "",
+  );
+  result = result.replace(/\[!#[\w-]+::[\s\S]*?\/!\](?:\n|$)/g, "");
+  result = result.replace(
+    /(?:\/\/|#|--|\/\*)\s*\[![#^].*?::.*?\](?:\n|$)/g,
+    (match) => (match.endsWith("\n") ? "\n" : ""),
+  );
+  result = result.replace(/\[![#^].*?::.*?\](?:\n|$)/g, (match) =>
+    match.endsWith("\n") ? "\n" : "",
+  );
+  return result.trim();
+}
@@ -0,0 +1,111 @@
+import type { Blockquote, Paragraph, Root, RootContent } from "mdast";
+import { toString } from "mdast-util-to-string";
+
+/*
+ * Callouts: GitHub's `> [!NOTE]` blockquotes, plus the `> **Note**: ...`
+ * quotes older docs were written with, so those render the same way
+ * without being edited.
+ */
+
+export type CalloutType = "note" | "tip" | "warning" | "caution" | "security";
+
+export const CALLOUT_TITLES: Record<CalloutType, string> = {
+  note: "Note",
+  tip: "Tip",
+  warning: "Warning",
+  caution: "Caution",
+  security: "Security",
+};
+
+/* hast tag a callout blockquote is rendered as, see `Callout` */
+export const CALLOUT_TAG = "callout";
+
+/* Bold labels of the old `> **Label**: text` style, lowercased */
+const LEGACY_LABELS: Record<string, CalloutType> = {
+  note: "note",
+  "honest notice": "note",
+  tip: "tip",
+  "pro-tip": "tip",
+  warning: "warning",
+  caution: "caution",
+  danger: "caution",
+  security: "security",
+};
+
+const MARKER_REGEX = /^\[!([a-z]+)\][ \t]*(.*)(?:\n|$)/i;
+
+function isCalloutType(type: string): type is CalloutType {
+  return Object.prototype.hasOwnProperty.call(CALLOUT_TITLES, type);
+}
+
+/**
+ * `> [!TYPE] Optional title`. The marker (and title) are removed from the
+ * paragraph.
+ */
+function readMarker(
+  paragraph: Paragraph,
+): { type: CalloutType; title: string } | null {
+  const first = paragraph.children[0];
+  if (first?.type !== "text") return null;
+
+  const match = first.value.match(MARKER_REGEX);
+  const type = match?.[1].toLowerCase();
+  if (!match || !type || !isCalloutType(type)) return null;
+
+  first.value = first.value.substring(match[0].length);
+  if (!first.value) paragraph.children.shift();
+  return { type, title: match[2].trim() || CALLOUT_TITLES[type] };
+}
+
+/**
+ * `> **Note**: text` or `> **Note:** text`. The label is kept as the title,
+ * so "Pro-Tip" still reads "Pro-Tip".
+ */
+function readLegacyLabel(
+  paragraph: Paragraph,
+): { type: CalloutType; title: string } | null {
+  const [label, next] = paragraph.children;
+  if (label?.type !== "strong") return null;
+
+  const labelText = toString(label).trim();
+  const title = labelText.replace(/:$/, "").trim();
+  const type = LEGACY_LABELS[title.toLowerCase()];
+  const colonInLabel = labelText.endsWith(":");
+  const colonAfter = next?.type === "text" && next.value.startsWith(":");
+  if (!type || (!colonInLabel && !colonAfter)) return null;
+
+  paragraph.children.shift();
+  if (next?.type === "text") {
+    next.value = next.value.replace(colonInLabel ? /^\s+/ : /^:\s*/, "");
+    if (!next.value) paragraph.children.shift();
+  }
+  return { type, title };
+}
+
+function toCallout(node: Blockquote) {
+  const paragraph = node.children[0];
+  if (paragraph?.type !== "paragraph") return;
+
+  const callout = readMarker(paragraph) ?? readLegacyLabel(paragraph);
+  if (!callout) return;
+
+  if (paragraph.children.length === 0) node.children.shift();
+  node.data = {
+    ...node.data,
+    hName: CALLOUT_TAG,
+    hProperties: { type: callout.type, title: callout.title },
+  };
+}
+
+/**
+ * Remark plugin turning callout blockquotes into `CALLOUT_TAG` elements.
+ */
+export function remarkCallouts() {
+  return (tree: Root) => {
+    const visit = (node: Root | RootContent) => {
+      if (node.type === "blockquote") toCallout(node);
+      if ("children" in node) node.children.forEach(visit);
+    };
+    visit(tree);
+  };
+}
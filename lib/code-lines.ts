@@ -0,0 +1,177 @@
+import type { Element, ElementContent } from "hast";
+import { ANNOTATION_TRIGGER_TAG } from "./highlight";
+
+/*
+ * Per-line decoration of fenced code:
+ *
+ *   ```ts {3,7-9}        highlight lines 3 and 7 to 9
+ *   ```ts showLineNumbers
+ *   foo(); // [!code ++]  added line (also `--` removed, `focus`, `highlight`)
+ *
+ * Line numbers count the lines as displayed: a multi-line annotation tag
+ * takes no line of its own.
+ */
+
+export type LineMark = "add" | "remove" | "focus" | "highlight";
+
+const LINE_MARKS: Record<string, LineMark> = {
+  "++": "add",
+  "--": "remove",
+  focus: "focus",
+  highlight: "highlight",
+};
+
+/* `[!code ++]` at the end of a line, with the comment holding it */
+const LINE_MARKER_REGEX =
+  /\s*(?:(?:\/\/|#|--|;|<!--|\/\*)\s*)?\[!code\s+(\+\+|--|focus|highlight)\]\s*(?:\*\/|-->)?\s*$/;
+
+const LINE_RANGES_REGEX = /\{([\d\s,-]+)\}/;
+
+/**
+ * Lines listed in `{3,7-9}` in the fence meta, 1-based.
+ */
+export function parseLineRanges(meta: string | null | undefined): Set<number> {
+  const lines = new Set<number>();
+  const ranges = meta?.match(LINE_RANGES_REGEX)?.[1];
+  if (!ranges) return lines;
+
+  ranges.split(",").forEach((range) => {
+    const [start, end = start] = range.split("-").map((n) => parseInt(n, 10));
+    if (isNaN(start) || isNaN(end)) return;
+    for (let line = start; line <= end; line++) lines.add(line);
+  });
+  return lines;
+}
+
+/**
+ * Fence meta with `{...}` ranges taken out, for `parseFenceMeta`.
+ */
+export function withoutLineRanges(meta: string | null | undefined): string {
+  return (meta || "").replace(LINE_RANGES_REGEX, " ");
+}
+
+/**
+ * The mark at the end of a line, and how many characters it takes.
+ */
+export function readLineMarker(
+  line: string,
+): { mark: LineMark; length: number } | null {
+  const match = line.match(LINE_MARKER_REGEX);
+  return match ? { mark: LINE_MARKS[match[1]], length: match[0].length } : null;
+}
+
+/**
+ * Code as it should be copied: markers removed, and lines marked as
+ * removed dropped altogether.
+ */
+export function stripLineMarkers(code: string): string {
+  return code
+    .split("\n")
+    .flatMap((line) => {
+      const marker = readLineMarker(line);
+      if (!marker) return [line];
+      if (marker.mark === "remove") return [];
+      return [line.substring(0, line.length - marker.length)];
+    })
+    .join("\n");
+}
+
+/**
+ * Splits highlighted nodes into lines. Tokens spanning several lines
+ * (block comments, template strings) are cut and their element repeated
+ * on each line, so every line stands on its own.
+ */
+export function splitIntoLines(nodes: ElementContent[]): ElementContent[][] {
+  const lines: ElementContent[][] = [[]];
+
+  nodes.forEach((node) => {
+    if (node.type === "text") {
+      node.value.split("\n").forEach((part, index) => {
+        if (index > 0) lines.push([]);
+        if (part) lines[lines.length - 1].push({ type: "text", value: part });
+      });
+    } else if (node.type === "element" && node.children.length > 0) {
+      splitIntoLines(node.children).forEach((childLine, index) => {
+        if (index > 0) lines.push([]);
+        if (childLine.length > 0) {
+          lines[lines.length - 1].push({ ...node, children: childLine });
+        }
+      });
+    } else {
+      lines[lines.length - 1].push(node);
+    }
+  });
+
+  return lines;
+}
+
+export function lineText(nodes: ElementContent[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.value;
+      return node.type === "element" ? lineText(node.children) : "";
+    })
+    .join("");
+}
+
+/**
+ * Drops the last `count` characters of a line, e.g. its marker comment.
+ */
+export function trimLineEnd(nodes: ElementContent[], count: number): number {
+  for (let i = nodes.length - 1; i >= 0 && count > 0; i--) {
+    const node = nodes[i];
+    if (node.type === "text") {
+      const removed = Math.min(count, node.value.length);
+      node.value = node.value.substring(0, node.value.length - removed);
+      count -= removed;
+    } else if (node.type === "element") {
+      count = trimLineEnd(node.children, count);
+    }
+    if (count > 0 || isEmpty(node)) nodes.splice(i, 1);
+  }
+  return count;
+}
+
+function isEmpty(node: ElementContent): boolean {
+  if (node.type === "text") return !node.value;
+  return (
+    node.type === "element" &&
+    node.tagName !== ANNOTATION_TRIGGER_TAG &&
+    node.children.every(isEmpty)
+  );
+}
+
+/**
+ * Wraps each line in a `span.code-line`, with the classes its marks and
+ * the highlighted ranges give it.
+ */
+export function toLineElements(
+  nodes: ElementContent[],
+  highlighted: Set<number>,
+): { lines: Element[]; marks: Set<LineMark> } {
+  const marks = new Set<LineMark>();
+  const lines = splitIntoLines(nodes);
+  if (lines.length > 1 && lines[lines.length - 1].length === 0) lines.pop();
+
+  const elements = lines.map((line, index): Element => {
+    const lineMarks = new Set<LineMark>();
+    const marker = readLineMarker(lineText(line));
+    if (marker) {
+      trimLineEnd(line, marker.length);
+      lineMarks.add(marker.mark);
+    }
+    if (highlighted.has(index + 1)) lineMarks.add("highlight");
+    lineMarks.forEach((mark) => marks.add(mark));
+
+    return {
+      type: "element",
+      tagName: "span",
+      properties: {
+        className: ["code-line", ...Array.from(lineMarks, (m) => `line-${m}`)],
+      },
+      children: line,
+    };
+  });
+
+  return { lines: elements, marks };
+}
@@ -0,0 +1,338 @@
+import {
+  ConfigIssue,
+  JsonSchema,
+  formatConfigPath,
+  getSchema,
+  validateConfig,
+} from "./config-schema";
+
+/*
+ * Form model of the config builder (/tools/config-builder). Fields are
+ * read from the JSON Schemas: label, help, choices and default all come
+ * from the schema node at the field's path. Form values are kept as the
+ * strings typed, so an invalid one still reaches the validator.
+ */
+
+export type FieldKind = "text" | "number" | "select" | "list";
+
+export interface BuilderField {
+  /* Dotted path in the config, also the URL parameter: `server.port` */
+  key: string;
+  /* Schema checking the config the field belongs to */
+  schema: "server-options" | "meta-config";
+  label: string;
+  description?: string;
+  kind: FieldKind;
+  /* Choices of a select */
+  options?: string[];
+  /* Shown while empty: the default, if any */
+  placeholder?: string;
+  node: JsonSchema;
+}
+
+export interface BuilderSection {
+  id: string;
+  title: string;
+  fields: BuilderField[];
+}
+
+export type BuilderValues = Record<string, string>;
+
+export interface BuilderOutput {
+  serverOptions: Record<string, unknown>;
+  metaConfig: Record<string, unknown>;
+  /* Problems by field key */
+  issues: Record<string, string[]>;
+}
+
+function types(node: JsonSchema): string[] {
+  return [node.type ?? [], ...(node.anyOf ?? []).map((alt) => alt.type ?? [])]
+    .flat()
+    .filter((type, index, all) => all.indexOf(type) === index);
+}
+
+/**
+ * Schema node at a dotted path, stepping into the object alternative of
+ * `anyOf` nodes such as `security.cors` (`false` or options).
+ */
+function nodeAt(schema: string, key: string): JsonSchema {
+  let node = getSchema(schema);
+  for (const segment of key.split(".")) {
+    const object = node?.properties
+      ? node
+      : node?.anyOf?.find((alternative) => alternative.properties);
+    node = object?.properties?.[segment] ?? null;
+    if (node?.$ref) node = getSchema(node.$ref);
+  }
+  if (!node) throw new Error(`No schema for config builder field ${key}`);
+  return node;
+}
+
+function kindOf(node: JsonSchema): FieldKind {
+  const allowed = types(node);
+  if (node.enum || (allowed.length === 1 && allowed[0] === "boolean")) {
+    return "select";
+  }
+  if (allowed.length === 1 && allowed[0] === "array") return "list";
+  if (allowed.every((type) => type === "integer" || type === "number")) {
+    return "number";
+  }
+  return "text";
+}
+
+function field(
+  schema: BuilderField["schema"],
+  key: string,
+  label?: string,
+): BuilderField {
+  const node = nodeAt(schema, key);
+  const kind = kindOf(node);
+  const defaultValue = node.default;
+  return {
+    key,
+    schema,
+    label: label ?? key.split(".").pop()!,
+    description: node.description,
+    kind,
+    options:
+      kind === "select"
+        ? (node.enum?.map(String) ?? ["true", "false"])
+        : undefined,
+    placeholder:
+      defaultValue === undefined
+        ? undefined
+        : Array.isArray(defaultValue)
+          ? defaultValue.join(", ")
+          : String(defaultValue),
+    node,
+  };
+}
+
+export const BUILDER_SECTIONS: BuilderSection[] = [
+  {
+    id: "server",
+    title: "Server",
+    fields: [
+      field("server-options", "env"),
+      field("server-options", "server.port"),
+      field("server-options", "server.host"),
+    ],
+  },
+  {
+    id: "security",
+    title: "Security",
+    fields: [
+      field("server-options", "security.enabled"),
+      field("server-options", "security.level"),
+    ],
+  },
+  {
+    id: "cors",
+    title: "CORS",
+    fields: [
+      field("server-options", "security.cors.origin", "origins"),
+      field("server-options", "security.cors.credentials"),
+      field("server-options", "security.cors.methods"),
+      field("server-options", "security.cors.allowedHeaders"),
+    ],
+  },
+  {
+    id: "rate-limit",
+    title: "Rate limit",
+    fields: [
+      field("server-options", "security.rateLimit.windowMs"),
+      field("server-options", "security.rateLimit.max"),
+      field("server-options", "security.rateLimit.message"),
+    ],
+  },
+  {
+    id: "trust-proxy",
+    title: "Trust proxy",
+    fields: [field("server-options", "server.trustProxy")],
+  },
+  {
+    id: "cluster",
+    title: "Cluster",
+    fields: [
+      field("server-options", "cluster.enabled"),
+      field("server-options", "cluster.workers"),
+      field("server-options", "cluster.strategy"),
+    ],
+  },
+  {
+    id: "meta",
+    title: "Meta (__sys__)",
+    fields: [
+      field("meta-config", "__sys__.__name__"),
+      field("meta-config", "__sys__.__version__"),
+      field("meta-config", "__sys__.__author__"),
+      field("meta-config", "__sys__.__description__"),
+      field("meta-config", "__sys__.__port__"),
+      field("meta-config", "__sys__.__env__"),
+    ],
+  },
+];
+
+export const BUILDER_FIELDS = BUILDER_SECTIONS.flatMap(
+  (section) => section.fields,
+);
+
+/**
+ * Config value of what was typed in a field. Text that is not of an
+ * allowed type is kept as text, for the validator to report.
+ */
+function parseValue(builderField: BuilderField, raw: string): unknown {
+  const allowed = types(builderField.node);
+  const text = raw.trim();
+
+  if (allowed.includes("boolean") && (text === "true" || text === "false")) {
+    return text === "true";
+  }
+  if (
+    (allowed.includes("integer") || allowed.includes("number")) &&
+    /^-?\d+(\.\d+)?$/.test(text)
+  ) {
+    return Number(text);
+  }
+  // A list field, or several values where one or a list is allowed
+  if (
+    allowed.includes("array") &&
+    (builderField.kind === "list" ||
+      text.includes(",") ||
+      !allowed.includes("string"))
+  ) {
+    return text
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return text;
+}
+
+function setPath(target: Record<string, unknown>, key: string, value: unknown) {
+  const segments = key.split(".");
+  let object = target;
+  segments.slice(0, -1).forEach((segment) => {
+    object[segment] ??= {};
+    object = object[segment] as Record<string, unknown>;
+  });
+  object[segments[segments.length - 1]] = value;
+}
+
+function issuesByField(
+  issues: ConfigIssue[],
+  fields: BuilderField[],
+): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  issues.forEach((issue) => {
+    const path = formatConfigPath(issue.path);
+    // The deepest field the problem is in, e.g. `security.cors.methods[1]`
+    const owner = fields
+      .filter(
+        ({ key }) =>
+          path === key ||
+          path.startsWith(`${key}.`) ||
+          path.startsWith(`${key}[`),
+      )
+      .sort((a, b) => b.key.length - a.key.length)[0];
+    if (owner) (result[owner.key] ??= []).push(issue.message);
+  });
+  return result;
+}
+
+/**
+ * Server options and meta config built from the filled-in fields, with
+ * what is wrong in them.
+ */
+export function buildConfig(values: BuilderValues): BuilderOutput {
+  const serverOptions: Record<string, unknown> = {};
+  const metaConfig: Record<string, unknown> = {};
+
+  BUILDER_FIELDS.forEach((builderField) => {
+    const raw = values[builderField.key];
+    if (!raw?.trim()) return;
+    setPath(
+      builderField.schema === "meta-config" ? metaConfig : serverOptions,
+      builderField.key,
+      parseValue(builderField, raw),
+    );
+  });
+
+  const serverFields = BUILDER_FIELDS.filter(
+    ({ schema }) => schema === "server-options",
+  );
+  const metaFields = BUILDER_FIELDS.filter(
+    ({ schema }) => schema === "meta-config",
+  );
+  return {
+    serverOptions,
+    metaConfig,
+    issues: {
+      ...issuesByField(
+        validateConfig(serverOptions, "server-options"),
+        serverFields,
+      ),
+      ...issuesByField(validateConfig(metaConfig, "meta-config"), metaFields),
+    },
+  };
+}
+
+function toLiteral(value: unknown, indent: string): string {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => toLiteral(item, indent));
+    return `[${items.join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    const inner = `${indent}  `;
+    const entries = Object.entries(value).map(([key, child]) => {
+      const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+      return `${inner}${name}: ${toLiteral(child, inner)},`;
+    });
+    return entries.length ? `{\n${entries.join("\n")}\n${indent}}` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * `createServer` call for a set of server options.
+ */
+export function toServerSnippet(serverOptions: Record<string, unknown>) {
+  return `import { createServer } from "xypriss";
+
+const app = createServer(${toLiteral(serverOptions, "")});
+
+app.start();`;
+}
+
+/**
+ * Contents of `xypriss.config.json` for a meta config.
+ */
+export function toMetaConfigFile(metaConfig: Record<string, unknown>) {
+  return JSON.stringify(metaConfig, null, 2);
+}
+
+/**
+ * Query string holding the filled-in fields, for sharing.
+ */
+export function valuesToSearch(values: BuilderValues): string {
+  const params = new URLSearchParams();
+  BUILDER_FIELDS.forEach(({ key }) => {
+    if (values[key]?.trim()) params.set(key, values[key]);
+  });
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+/**
+ * Field values read back from a query string; unknown keys are ignored.
+ */
+export function valuesFromSearch(
+  params: Pick<URLSearchParams, "get">,
+): BuilderValues {
+  const values: BuilderValues = {};
+  BUILDER_FIELDS.forEach(({ key }) => {
+    const value = params.get(key);
+    if (value !== null) values[key] = value;
+  });
+  return values;
+}
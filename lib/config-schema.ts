@@ -0,0 +1,292 @@
+import metaConfigSchema from "./schemas/meta-config.schema.json";
+import serverOptionsSchema from "./schemas/server-options.schema.json";
+
+/*
+ * JSON Schemas of XyPriss configuration, in `lib/schemas`:
+ *
+ *   meta-config      `xypriss.config.json`: `__sys__`, `$internal` and
+ *                    the server option sections
+ *   server-options   options of `createServer()`
+ *
+ * The validator covers the draft-07 keywords these schemas use, nothing
+ * more, plus `errorMessage` for a readable pattern mismatch. `$ref` takes
+ * a schema id and an optional JSON pointer:
+ * `server-options#/properties/cluster`.
+ */
+
+export type JsonType =
+  "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  patternProperties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  /* Shown instead of the pattern when a value does not match it */
+  errorMessage?: string;
+}
+
+export interface ConfigIssue {
+  /* Keys and indexes down to the value, e.g. `["__sys__", "__PORT__"]` */
+  path: (string | number)[];
+  message: string;
+}
+
+export const CONFIG_SCHEMAS: Record<string, JsonSchema> = {
+  "meta-config": metaConfigSchema as JsonSchema,
+  "server-options": serverOptionsSchema as JsonSchema,
+};
+
+/**
+ * The schema a reference points at, or null when there is none.
+ */
+export function getSchema(ref: string): JsonSchema | null {
+  const [id, pointer = ""] = ref.split("#");
+  let schema: unknown = Object.hasOwn(CONFIG_SCHEMAS, id)
+    ? CONFIG_SCHEMAS[id]
+    : undefined;
+
+  for (const token of pointer.split("/").filter(Boolean)) {
+    const key = token.replace(/~1/g, "/").replace(/~0/g, "~");
+    schema =
+      schema && typeof schema === "object" && Object.hasOwn(schema, key)
+        ? (schema as Record<string, unknown>)[key]
+        : undefined;
+  }
+  return schema && typeof schema === "object" ? (schema as JsonSchema) : null;
+}
+
+/**
+ * `__sys__.__PORT__`, `server.autoPortSwitch.portRange[1]`
+ */
+export function formatConfigPath(path: ConfigIssue["path"]): string {
+  return (
+    path
+      .map((segment, index) =>
+        typeof segment === "number"
+          ? `[${segment}]`
+          : index === 0
+            ? segment
+            : `.${segment}`,
+      )
+      .join("") || "(root)"
+  );
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, types: JsonType[]): boolean {
+  const type = typeOf(value);
+  return types.some(
+    (expected) =>
+      expected === type || (expected === "number" && type === "integer"),
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Known key an unknown one was probably meant to be: same letters in
+ * another case, or a typo or two away (fewer for short keys).
+ */
+function closestKey(key: string, known: string[]): string | undefined {
+  return (
+    known.find((candidate) => candidate.toLowerCase() === key.toLowerCase()) ??
+    known.find(
+      (candidate) =>
+        editDistance(candidate, key) <= Math.min(2, Math.floor(key.length / 4)),
+    )
+  );
+}
+
+function describe(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function validate(
+  value: unknown,
+  schema: JsonSchema,
+  path: ConfigIssue["path"],
+  issues: ConfigIssue[],
+) {
+  if (schema.$ref) {
+    const target = getSchema(schema.$ref);
+    if (!target) {
+      issues.push({ path, message: `unknown schema ${schema.$ref}` });
+      return;
+    }
+    validate(value, target, path, issues);
+    return;
+  }
+
+  if (schema.anyOf) {
+    // The first alternative of the right type explains what is wrong
+    const attempts = schema.anyOf.map((alternative) => {
+      const found: ConfigIssue[] = [];
+      validate(value, alternative, path, found);
+      return { alternative, found };
+    });
+    if (attempts.some(({ found }) => found.length === 0)) return;
+
+    const sameType = attempts.find(
+      ({ alternative }) =>
+        alternative.type && matchesType(value, [alternative.type].flat()),
+    );
+    if (sameType) {
+      issues.push(...sameType.found);
+    } else {
+      const types = schema.anyOf.flatMap(({ type }) => type ?? []);
+      issues.push({
+        path,
+        message: `expected ${[...new Set(types)].join(" or ")}, got ${typeOf(value)}`,
+      });
+    }
+    return;
+  }
+
+  if (schema.type && !matchesType(value, [schema.type].flat())) {
+    issues.push({
+      path,
+      message: `expected ${[schema.type].flat().join(" or ")}, got ${typeOf(value)}`,
+    });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `${describe(value)} is not one of ${schema.enum.map(describe).join(", ")}`,
+    });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (
+    typeof value === "string" &&
+    schema.pattern &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    issues.push({
+      path,
+      message: schema.errorMessage
+        ? `${describe(value)} ${schema.errorMessage}`
+        : `${describe(value)} does not match ${schema.pattern}`,
+    });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `expected at least ${schema.minItems} item(s)`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({
+        path,
+        message: `expected at most ${schema.maxItems} item(s)`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        validate(item, schema.items!, [...path, index], issues),
+      );
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const patterns = Object.entries(schema.patternProperties ?? {});
+
+    schema.required
+      ?.filter((key) => !Object.hasOwn(object, key))
+      .forEach((key) =>
+        issues.push({ path, message: `missing required key "${key}"` }),
+      );
+
+    Object.entries(object).forEach(([key, child]) => {
+      const childPath = [...path, key];
+      const matched = patterns.filter(([pattern]) =>
+        new RegExp(pattern).test(key),
+      );
+
+      if (Object.hasOwn(properties, key)) {
+        validate(child, properties[key], childPath, issues);
+      }
+      matched.forEach(([, childSchema]) =>
+        validate(child, childSchema, childPath, issues),
+      );
+      if (Object.hasOwn(properties, key) || matched.length) return;
+
+      if (schema.additionalProperties === false) {
+        const suggestion = closestKey(key, Object.keys(properties));
+        issues.push({
+          path: childPath,
+          message: suggestion
+            ? `unknown key "${key}" (did you mean "${suggestion}"?)`
+            : `unknown key "${key}"`,
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        validate(child, schema.additionalProperties, childPath, issues);
+      }
+    });
+  }
+}
+
+/**
+ * Everything wrong with a config value, checked against a schema
+ * reference (`meta-config`, `server-options#/properties/server`).
+ */
+export function validateConfig(value: unknown, ref: string): ConfigIssue[] {
+  const schema = getSchema(ref);
+  if (!schema) return [{ path: [], message: `unknown schema ${ref}` }];
+
+  const issues: ConfigIssue[] = [];
+  validate(value, schema, [], issues);
+  return issues;
+}
@@ -0,0 +1,221 @@
+import fs from "fs";
+import path from "path";
+import matter from "gray-matter";
+import { splitVersion } from "./docs-versions";
+import { hasIncludes, isPartial, resolveIncludes } from "./includes";
+import { hasSnippets, resolveSnippets } from "./snippets";
+
+export const docsDirectory = path.join(process.cwd(), "lib/docs");
+
+export interface Doc {
+  slug: string;
+  realSlug?: string;
+  /* `latest`, or the version directory the doc is in (`v5`) */
+  version: string;
+  frontmatter: Record<string, any>;
+  /* Markdown body, includes and `file=` snippets resolved */
+  content: string;
+  /* Body as written in the file, set when it differs from `content` */
+  source?: string;
+  /* 1-based line of the file where `content` starts, after frontmatter */
+  contentLine?: number;
+}
+
+interface ContentIndex {
+  /* Docs keyed by real (filesystem) slug, in directory walk order */
+  docs: Map<string, Doc>;
+  /* Normalized URL slug -> doc (first file wins, like the old lookup) */
+  bySlug: Map<string, Doc>;
+  /* Underscore-prefixed files, only reachable through includes */
+  partials: Map<string, Doc>;
+  /* Real slugs whose file changed since the last read */
+  dirty: Set<string>;
+  /* Set when the tree itself changed (file added, removed or renamed) */
+  stale: boolean;
+  watcher?: fs.FSWatcher;
+}
+
+/**
+ * The index lives on globalThis so that dev HMR reloads of this module
+ * reuse the same parsed tree and never stack up duplicate watchers.
+ */
+const globalForIndex = globalThis as unknown as {
+  __xyprissContentIndex?: ContentIndex;
+};
+
+// Helper to recursively get all files
+function getFilesRecursively(dir: string): string[] {
+  let results: string[] = [];
+  const list = fs.readdirSync(dir);
+  list.forEach((file) => {
+    file = path.join(dir, file);
+    const stat = fs.statSync(file);
+    if (stat && stat.isDirectory()) {
+      /* Recurse into a subdirectory */
+      results = results.concat(getFilesRecursively(file));
+    } else {
+      /* Is a file */
+      if (file.endsWith(".md")) {
+        results.push(file);
+      }
+    }
+  });
+  return results;
+}
+
+/**
+ * Normalizes a slug for display in URL:
+ * - lowercase
+ * - remove trailing /README
+ * - handle base README as empty string
+ */
+export function normalizeSlug(slug: string): string {
+  let normalized = slug.toLowerCase().replace(/\\/g, "/");
+  if (normalized === "readme") return "";
+  if (normalized.endsWith("/readme")) {
+    normalized = normalized.substring(0, normalized.length - 7);
+  }
+  return normalized;
+}
+
+function parseDoc(realSlug: string): Doc {
+  const fullPath = path.join(docsDirectory, `${realSlug}.md`);
+  const fileContents = fs.readFileSync(fullPath, "utf8");
+  const { data, content } = matter(fileContents);
+  const frontmatterLength = fileContents.length - content.length;
+
+  return {
+    slug: normalizeSlug(realSlug),
+    realSlug,
+    version: splitVersion(realSlug).version,
+    frontmatter: data,
+    content,
+    contentLine:
+      fileContents.substring(0, frontmatterLength).split("\n").length,
+  };
+}
+
+function indexBySlug(docs: Map<string, Doc>) {
+  const bySlug = new Map<string, Doc>();
+  docs.forEach((doc) => {
+    if (!bySlug.has(doc.slug)) {
+      bySlug.set(doc.slug, doc);
+    }
+  });
+  return bySlug;
+}
+
+function resolveContent(doc: Doc, partials: Map<string, Doc>): Doc {
+  let content = doc.content;
+  if (hasIncludes(content)) {
+    content = resolveIncludes(
+      content,
+      (realSlug) => partials.get(realSlug)?.content,
+    );
+  }
+  if (hasSnippets(content)) content = resolveSnippets(content);
+  return content === doc.content
+    ? doc
+    : { ...doc, content, source: doc.content };
+}
+
+function scanDocs(): { docs: Map<string, Doc>; partials: Map<string, Doc> } {
+  const docs = new Map<string, Doc>();
+  const partials = new Map<string, Doc>();
+  getFilesRecursively(docsDirectory).forEach((fullPath) => {
+    const realSlug = path
+      .relative(docsDirectory, fullPath)
+      .replace(/\.md$/, "")
+      .replace(/\\/g, "/");
+    (isPartial(realSlug) ? partials : docs).set(realSlug, parseDoc(realSlug));
+  });
+  docs.forEach((doc, realSlug) => {
+    docs.set(realSlug, resolveContent(doc, partials));
+  });
+  return { docs, partials };
+}
+
+/**
+ * Watches the docs tree in development. A change to a known file only
+ * invalidates that entry; anything else (new, deleted or renamed files,
+ * directory changes, partials, whose includers would all need a reparse)
+ * forces a full rescan on the next read.
+ */
+function watchDocs(index: ContentIndex) {
+  if (process.env.NODE_ENV !== "development") return;
+
+  try {
+    index.watcher = fs.watch(
+      docsDirectory,
+      { recursive: true },
+      (eventType, filename) => {
+        const file = filename?.toString().replace(/\\/g, "/");
+        const realSlug = file?.replace(/\.md$/, "");
+
+        if (
+          eventType === "change" &&
+          file?.endsWith(".md") &&
+          realSlug &&
+          index.docs.has(realSlug)
+        ) {
+          index.dirty.add(realSlug);
+        } else {
+          index.stale = true;
+        }
+      },
+    );
+    index.watcher.unref();
+  } catch (err) {
+    /* Without a watcher every read rescans, which is the old behaviour */
+    console.warn("Docs watcher unavailable, falling back to rescans", err);
+    index.stale = true;
+  }
+}
+
+function refreshIndex(index: ContentIndex) {
+  if (index.stale) {
+    ({ docs: index.docs, partials: index.partials } = scanDocs());
+    index.dirty.clear();
+    index.stale = !index.watcher && process.env.NODE_ENV === "development";
+  } else if (index.dirty.size > 0) {
+    index.dirty.forEach((realSlug) => {
+      if (fs.existsSync(path.join(docsDirectory, `${realSlug}.md`))) {
+        index.docs.set(
+          realSlug,
+          resolveContent(parseDoc(realSlug), index.partials),
+        );
+      } else {
+        index.docs.delete(realSlug);
+      }
+    });
+    index.dirty.clear();
+  } else {
+    return;
+  }
+
+  index.bySlug = indexBySlug(index.docs);
+}
+
+/**
+ * Returns the shared content index, parsing the docs tree on first use
+ * and re-parsing only what changed since the previous call.
+ */
+export function getContentIndex(): ContentIndex {
+  let index = globalForIndex.__xyprissContentIndex;
+
+  if (!index) {
+    const { docs, partials } = scanDocs();
+    index = {
+      docs,
+      bySlug: indexBySlug(docs),
+      partials,
+      dirty: new Set(),
+      stale: false,
+    };
+    watchDocs(index);
+    globalForIndex.__xyprissContentIndex = index;
+  }
+
+  refreshIndex(index);
+  return index;
+}
@@ -0,0 +1,285 @@
+import fs from "fs";
+import path from "path";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import type { Code, Root, RootContent } from "mdast";
+import ts from "typescript";
+import { ConfigIssue, formatConfigPath, validateConfig } from "./config-schema";
+import { Doc, getContentIndex } from "./content-index";
+import { docFile } from "./docs-health";
+import { parseFenceMeta } from "./fence-meta";
+import { TYPESCRIPT_LANGUAGES, exampleCode } from "./doc-examples";
+
+/*
+ * Config examples checked by `npm run docs:configs`: JSON fences naming
+ * a schema, and the config files of the repo. A TypeScript fence naming
+ * a schema has the object literal passed to `createServer()` checked,
+ * leaving out values that are not literals (variables, calls, spreads).
+ *
+ *   ```json schema=meta-config
+ *   ```json schema=server-options#/properties/cluster
+ *   ```ts schema=server-options
+ */
+
+export interface ConfigExample {
+  /* Doc or repo file, e.g. `lib/docs/configuration.md` */
+  file: string;
+  /* Line of the file the code starts on */
+  line: number;
+  language: "json" | "typescript";
+  code: string;
+  schema: string;
+}
+
+export interface ConfigProblem {
+  file: string;
+  line: number;
+  message: string;
+}
+
+/* Repo files checked as they are, against their schema */
+export const CONFIG_FILES: Record<string, string> = {
+  "test.json": "meta-config",
+};
+
+const JSON_LANGUAGES = new Set(["json", "jsonc", "json5"]);
+
+function schemaFences(tree: Root): Code[] {
+  const fences: Code[] = [];
+  const walk = (node: Root | RootContent) => {
+    if (node.type === "code") {
+      const { schema, file } = parseFenceMeta(node.meta);
+      const language = node.lang?.toLowerCase() || "";
+      if (
+        (JSON_LANGUAGES.has(language) || TYPESCRIPT_LANGUAGES.has(language)) &&
+        typeof schema === "string" &&
+        !file
+      ) {
+        fences.push(node);
+      }
+    } else if ("children" in node) {
+      node.children.forEach(walk);
+    }
+  };
+  walk(tree);
+  return fences;
+}
+
+/**
+ * Fences of a doc that name a schema, read from the file as written.
+ */
+export function getDocConfigExamples(doc: Doc): ConfigExample[] {
+  const tree = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .parse(doc.source ?? doc.content);
+  const firstLine = doc.contentLine || 1;
+
+  return schemaFences(tree).map((code) => ({
+    file: docFile(doc),
+    line: firstLine + code.position!.start.line,
+    language: TYPESCRIPT_LANGUAGES.has(code.lang!.toLowerCase())
+      ? "typescript"
+      : "json",
+    code: exampleCode(code.value),
+    schema: parseFenceMeta(code.meta).schema as string,
+  }));
+}
+
+/**
+ * Line (0-based) a value is on, found by following its keys through the
+ * text. Falls back to the deepest key found.
+ */
+function lineOfPath(json: string, issuePath: ConfigIssue["path"]): number {
+  let offset = 0;
+  for (const segment of issuePath) {
+    if (typeof segment === "number") continue;
+    const key = JSON.stringify(segment).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = new RegExp(`${key}\\s*:`).exec(json.substring(offset));
+    if (!match) break;
+    offset += match.index;
+  }
+  return json.substring(0, offset).split("\n").length - 1;
+}
+
+/* Marks a value that is not a literal, left out of the config checked */
+const NOT_LITERAL = Symbol("not a literal");
+
+function propertyName(name: ts.PropertyName): string | null {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name) ||
+    ts.isNoSubstitutionTemplateLiteral(name)
+  ) {
+    return name.text;
+  }
+  return null;
+}
+
+/**
+ * Value of a literal expression, with the 0-based line of every key.
+ */
+function literalValue(
+  node: ts.Expression,
+  source: ts.SourceFile,
+  issuePath: ConfigIssue["path"],
+  lines: Map<string, number>,
+): unknown {
+  lines.set(
+    formatConfigPath(issuePath),
+    source.getLineAndCharacterOfPosition(node.getStart(source)).line,
+  );
+
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) {
+    return literalValue(node.expression, source, issuePath, lines);
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(node.operand)
+  ) {
+    return -Number(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements
+      .map((element, index) =>
+        literalValue(element, source, [...issuePath, index], lines),
+      )
+      .filter((value) => value !== NOT_LITERAL);
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const object: Record<string, unknown> = {};
+    node.properties.forEach((property) => {
+      if (!ts.isPropertyAssignment(property)) return;
+      const key = propertyName(property.name);
+      if (key === null) return;
+      const value = literalValue(
+        property.initializer,
+        source,
+        [...issuePath, key],
+        lines,
+      );
+      if (value !== NOT_LITERAL) object[key] = value;
+    });
+    return object;
+  }
+  return NOT_LITERAL;
+}
+
+/**
+ * Options passed to the first `createServer({ ... })` of a TypeScript
+ * example, or null when it has none.
+ */
+function readServerOptions(
+  code: string,
+): { value: unknown; lines: Map<string, number> } | null {
+  const source = ts.createSourceFile(
+    "example.ts",
+    code,
+    ts.ScriptTarget.Latest,
+  );
+  let options: ts.ObjectLiteralExpression | null = null;
+  const visit = (node: ts.Node) => {
+    if (
+      !options &&
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === "createServer" &&
+      node.arguments[0] &&
+      ts.isObjectLiteralExpression(node.arguments[0])
+    ) {
+      options = node.arguments[0];
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  if (!options) return null;
+
+  const lines = new Map<string, number>();
+  return { value: literalValue(options, source, [], lines), lines };
+}
+
+/**
+ * Line (0-based) of the deepest key of an issue's path that was seen.
+ */
+function lineOfKey(
+  lines: Map<string, number>,
+  issuePath: ConfigIssue["path"],
+): number {
+  for (let length = issuePath.length; length >= 0; length--) {
+    const line = lines.get(formatConfigPath(issuePath.slice(0, length)));
+    if (line !== undefined) return line;
+  }
+  return 0;
+}
+
+/**
+ * Parse errors, unknown keys and wrong types of a config example.
+ */
+export function checkConfigExample(example: ConfigExample): ConfigProblem[] {
+  let value: unknown;
+  let lineOf: (issuePath: ConfigIssue["path"]) => number;
+
+  if (example.language === "typescript") {
+    const options = readServerOptions(example.code);
+    if (!options) {
+      return [
+        {
+          file: example.file,
+          line: example.line,
+          message: "no `createServer({ ... })` call to check",
+        },
+      ];
+    }
+    value = options.value;
+    lineOf = (issuePath) => lineOfKey(options.lines, issuePath);
+  } else {
+    try {
+      value = JSON.parse(example.code);
+    } catch (error) {
+      return [
+        {
+          file: example.file,
+          line: example.line,
+          message: `invalid JSON: ${(error as Error).message}`,
+        },
+      ];
+    }
+    lineOf = (issuePath) => lineOfPath(example.code, issuePath);
+  }
+
+  return validateConfig(value, example.schema).map((issue) => ({
+    file: example.file,
+    line: example.line + lineOf(issue.path),
+    message: `${formatConfigPath(issue.path)}: ${issue.message}`,
+  }));
+}
+
+/**
+ * Schema-tagged fences across docs and partials, then the repo's
+ * config files.
+ */
+export function getAllConfigExamples(): ConfigExample[] {
+  const { docs, partials } = getContentIndex();
+  const fromDocs = [...docs.values(), ...partials.values()].flatMap(
+    getDocConfigExamples,
+  );
+  const fromFiles = Object.entries(CONFIG_FILES).map(([file, schema]) => ({
+    file,
+    line: 1,
+    language: "json" as const,
+    code: fs.readFileSync(path.join(process.cwd(), file), "utf8"),
+    schema,
+  }));
+  return [...fromDocs, ...fromFiles];
+}
@@ -0,0 +1,101 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import type { Code, Root, RootContent } from "mdast";
+import { ANNOTATION_TAG_REGEX } from "./annotations";
+import { readLineMarker } from "./code-lines";
+import { Doc, getContentIndex } from "./content-index";
+import { docFile } from "./docs-health";
+import { parseFenceMeta } from "./fence-meta";
+
+/*
+ * TypeScript examples of the docs, as `npm run docs:examples` type-checks
+ * them. A fence opts out with `nocheck`:
+ *
+ *   ```ts nocheck
+ *
+ * `file=` fences are skipped too, the file they show being real code.
+ */
+
+export interface CodeExample {
+  /* Doc file, e.g. `lib/docs/getting-started.md` */
+  file: string;
+  /* Line of the file the example's first line is on */
+  line: number;
+  /* Code as copied, with every line kept in place */
+  code: string;
+}
+
+export const TYPESCRIPT_LANGUAGES = new Set([
+  "ts",
+  "typescript",
+  "tsx",
+  "mts",
+  "cts",
+]);
+
+/**
+ * Code as it is copied, annotation tags and line markers removed, but
+ * with its line breaks kept so errors point at the right line. Lines
+ * marked as removed are blanked.
+ */
+export function exampleCode(code: string): string {
+  return code
+    .replace(new RegExp(ANNOTATION_TAG_REGEX.source, "g"), (tag) =>
+      tag.replace(/[^\n]/g, ""),
+    )
+    .split("\n")
+    .map((line) => {
+      const marker = readLineMarker(line);
+      if (!marker) return line;
+      if (marker.mark === "remove") return "";
+      return line.substring(0, line.length - marker.length);
+    })
+    .join("\n");
+}
+
+function typescriptFences(tree: Root): Code[] {
+  const fences: Code[] = [];
+  const walk = (node: Root | RootContent) => {
+    if (node.type === "code") {
+      const meta = parseFenceMeta(node.meta);
+      if (
+        TYPESCRIPT_LANGUAGES.has(node.lang?.toLowerCase() || "") &&
+        !meta.nocheck &&
+        !meta.file
+      ) {
+        fences.push(node);
+      }
+    } else if ("children" in node) {
+      node.children.forEach(walk);
+    }
+  };
+  walk(tree);
+  return fences;
+}
+
+/**
+ * TypeScript examples of a doc, read from the file as written.
+ */
+export function getDocExamples(doc: Doc): CodeExample[] {
+  const tree = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .parse(doc.source ?? doc.content);
+  const firstLine = doc.contentLine || 1;
+
+  return typescriptFences(tree).map((code) => ({
+    file: docFile(doc),
+    // The code starts on the line after the opening fence
+    line: firstLine + code.position!.start.line,
+    code: exampleCode(code.value),
+  }));
+}
+
+/**
+ * TypeScript examples across all docs and partials.
+ */
+export function getAllExamples(): CodeExample[] {
+  const { docs, partials } = getContentIndex();
+  return [...docs.values(), ...partials.values()].flatMap(getDocExamples);
+}
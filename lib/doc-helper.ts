@@ -1,104 +1,71 @@
-import fs from "fs";
-import path from "path";
-import matter from "gray-matter";
+import { Doc, getContentIndex, normalizeSlug } from "./content-index";
+import {
+  DocVersion,
+  LATEST_VERSION,
+  compareVersions,
+  splitVersion,
+  versionedSlug,
+} from "./docs-versions";
 
-const docsDirectory = path.join(process.cwd(), "lib/docs");
+export type { Doc };
+export { normalizeSlug };
 
-export interface Doc {
-  slug: string;
-  realSlug?: string;
-  frontmatter: Record<string, any>;
-  content: string;
+/**
+ * All docs, or the docs of one version.
+ */
+export function getAllDocs(version?: string): Doc[] {
+  const docs = Array.from(getContentIndex().docs.values());
+  return version ? docs.filter((doc) => doc.version === version) : docs;
 }
 
-// Helper to recursively get all files
-function getFilesRecursively(dir: string): string[] {
-  let results: string[] = [];
-  const list = fs.readdirSync(dir);
-  list.forEach((file) => {
-    file = path.join(dir, file);
-    const stat = fs.statSync(file);
-    if (stat && stat.isDirectory()) {
-      /* Recurse into a subdirectory */
-      results = results.concat(getFilesRecursively(file));
-    } else {
-      /* Is a file */
-      if (file.endsWith(".md")) {
-        results.push(file);
-      }
-    }
-  });
-  return results;
+/**
+ * Versions with at least one doc, newest first. The latest version is
+ * always listed.
+ */
+export function getDocVersions(): DocVersion[] {
+  const ids = new Set([LATEST_VERSION]);
+  getContentIndex().docs.forEach((doc) => ids.add(doc.version));
+  return Array.from(ids)
+    .sort(compareVersions)
+    .map((id) => ({ id, label: id === LATEST_VERSION ? "Latest" : id }));
 }
 
 /**
- * Normalizes a slug for display in URL:
- * - lowercase
- * - remove trailing /README
- * - handle base README as empty string
+ * The same page in another version, or null when that version lacks it.
  */
-export function normalizeSlug(slug: string): string {
-  let normalized = slug.toLowerCase().replace(/\\/g, "/");
-  if (normalized === "readme") return "";
-  if (normalized.endsWith("/readme")) {
-    normalized = normalized.substring(0, normalized.length - 7);
-  }
-  return normalized;
+export function findDocInVersion(doc: Doc, version: string): Doc | null {
+  if (doc.version === version) return doc;
+  const { page } = splitVersion(doc.slug);
+  return getContentIndex().bySlug.get(versionedSlug(version, page)) || null;
 }
 
-export function getAllDocs(): Doc[] {
-  const allFiles = getFilesRecursively(docsDirectory);
-
-  const allDocsData = allFiles.map((fullPath) => {
-    const relativePath = path.relative(docsDirectory, fullPath);
-    // Original slug from filesystem
-    const realSlug = relativePath.replace(/\.md$/, "").replace(/\\/g, "/");
-    // Normalized slug for URLs
-    const slug = normalizeSlug(realSlug);
-
-    const fileContents = fs.readFileSync(fullPath, "utf8");
-    const { data, content } = matter(fileContents);
-
-    return {
-      slug,
-      realSlug, // Keep track of real slug if needed
-      frontmatter: data,
-      content,
-    } as Doc;
-  });
-
-  return allDocsData;
+/**
+ * The page search engines should index for a doc: its latest version when
+ * there is one, so old versions do not compete with it.
+ */
+export function getCanonicalDoc(doc: Doc): Doc {
+  return findDocInVersion(doc, LATEST_VERSION) || doc;
 }
 
-export async function getDocBySlug(slug: string): Promise<Doc | null> {
+/**
+ * Resolves a URL slug to its doc the same way the docs route does.
+ */
+export function findDoc(slug: string): Doc | null {
+  const { docs, bySlug } = getContentIndex();
+
   // If slug is empty, it refers to the root README
   const searchSlug = slug === "" || slug === "/" ? "README" : slug;
 
-  // Try exact match first
-  let targetPath = path.join(docsDirectory, `${searchSlug}.md`);
-  if (!fs.existsSync(targetPath)) {
-    // Try as a directory (index)
-    targetPath = path.join(docsDirectory, searchSlug, "README.md");
-  }
-
-  // If still not found, we need a case-insensitive search
-  if (!fs.existsSync(targetPath)) {
-    const allDocs = getAllDocs();
-    const normalizedTarget = normalizeSlug(slug);
-    const found = allDocs.find((d) => d.slug === normalizedTarget);
-    if (found) {
-      targetPath = path.join(docsDirectory, `${found.realSlug}.md`);
-    } else {
-      return null;
-    }
-  }
+  // Try exact match first, then as a directory (index)
+  const found =
+    docs.get(searchSlug) ||
+    docs.get(`${searchSlug}/README`) ||
+    // Fall back to a case-insensitive match on the normalized slug
+    bySlug.get(normalizeSlug(slug));
 
-  const fileContents = fs.readFileSync(targetPath, "utf8");
-  const { data, content } = matter(fileContents);
+  return found || null;
+}
 
-  return {
-    slug: normalizeSlug(searchSlug),
-    frontmatter: data,
-    content,
-  };
+export async function getDocBySlug(slug: string): Promise<Doc | null> {
+  return findDoc(slug);
 }
@@ -0,0 +1,96 @@
+import { normalizeSlug } from "./content-index";
+import { getDocVersions } from "./doc-helper";
+import { LATEST_VERSION, splitVersion, versionedHref } from "./docs-versions";
+
+/*
+ * Internal link handling for markdown docs. Authors link to files
+ * (`../CONFIGS_API.md`, `docs/routing`), the site serves normalized slugs
+ * (`/docs/configs_api`); everything that renders or checks links goes
+ * through here so both agree on the target.
+ */
+
+export const MARKDOWN_LINK_REGEX = /\[(.*?)\]\((.*?)\)/g;
+
+export const ANNOTATION_LINK_REGEX = /<link to="([^"]+)">([\s\S]*?)<\/link>/g;
+
+export function stripHtmlComments(content: string): string {
+  return content.replace(/<!--[\s\S]*?-->/g, "");
+}
+
+/**
+ * Splits `path#fragment`. The fragment is returned without its `#`, and is
+ * null when the link has none.
+ */
+export function splitFragment(href: string): {
+  path: string;
+  fragment: string | null;
+} {
+  const hashIndex = href.indexOf("#");
+  if (hashIndex === -1) return { path: href, fragment: null };
+  return {
+    path: href.substring(0, hashIndex),
+    fragment: href.substring(hashIndex + 1),
+  };
+}
+
+/**
+ * Site URL for a link written in a doc, or null when the link is left
+ * untouched (external URLs and same-page anchors). Links in an older
+ * version's docs stay in that version unless they name an existing one
+ * (`v6/routing`).
+ */
+export function rewriteDocHref(
+  href: string,
+  version = LATEST_VERSION,
+): string | null {
+  if (
+    href.startsWith("http") ||
+    href.startsWith("//") ||
+    href.startsWith("#")
+  ) {
+    return null;
+  }
+
+  // Keep `#fragment` aside so `OTHER.md#setup` still loses its extension
+  const { path, fragment } = splitFragment(href);
+
+  let target = path.replace(/\.mdx?$/, "");
+  target = target.replace(/^(\.\.?\/)+/, "");
+  target = target.replace(/^\/+/, "");
+
+  // Use normalizeSlug to ensure lowercase and no README
+  const normalizedTarget = normalizeSlug(target.replace(/^docs\//, ""));
+  const named = splitVersion(normalizedTarget);
+  const namesVersion =
+    named.page !== normalizedTarget &&
+    getDocVersions().some(({ id }) => id === named.version);
+  const url = namesVersion
+    ? versionedHref(named.version, named.page)
+    : versionedHref(version, normalizedTarget);
+  return `${url}${fragment ? `#${fragment}` : ""}`;
+}
+
+/**
+ * Robust Link Sanitization for Internal Links
+ */
+export function rewriteDocLinks(
+  content: string,
+  version = LATEST_VERSION,
+): string {
+  return content.replace(
+    MARKDOWN_LINK_REGEX,
+    (match: string, text: string, href: string) => {
+      const cleanHref = rewriteDocHref(href, version);
+      return cleanHref === null ? match : `[${text}](${cleanHref})`;
+    },
+  );
+}
+
+/**
+ * Doc slug a site URL points to, or null for anything outside `/docs`.
+ */
+export function docsUrlToSlug(url: string): string | null {
+  const match = url.match(/^\/docs(?:\/([^?#]*))?(?:[?#].*)?$/);
+  if (!match) return null;
+  return (match[1] || "").replace(/\/+$/, "");
+}
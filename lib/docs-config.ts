@@ -1,3 +1,8 @@
+/**
+ * Hand-picked sidebar groups. The sidebar itself is generated from the docs
+ * tree (see `getDocsNavigation`); this only overrides where listed pages go
+ * and in which order the groups appear.
+ */
 export const docsConfig = [
   {
     title: "Start Here",
@@ -0,0 +1,327 @@
+import fs from "fs";
+import path from "path";
+import { noteAnchors } from "./annotations";
+import { Doc, getContentIndex } from "./content-index";
+import { findDoc, getDocVersions } from "./doc-helper";
+import { getDocsNavigation } from "./docs-nav";
+import { versionedSlug } from "./docs-versions";
+import { extractHeadings } from "./headings";
+import { isPartial } from "./includes";
+import {
+  ANNOTATION_LINK_REGEX,
+  MARKDOWN_LINK_REGEX,
+  docsUrlToSlug,
+  rewriteDocHref,
+  splitFragment,
+} from "./doc-links";
+
+export interface OrphanDoc {
+  slug: string;
+  file: string;
+  title: string;
+}
+
+export interface MissingNavEntry {
+  title: string;
+  href: string;
+  /* Sidebar group, or `file:line` of a hard-coded link in the app */
+  source: string;
+}
+
+export interface BrokenLink {
+  file: string;
+  line: number;
+  text: string;
+  href: string;
+  /* URL the link is rewritten to when the page is rendered */
+  target: string;
+  /* The target doc does not exist, or exists without the `#fragment` */
+  reason: "missing-doc" | "missing-anchor";
+}
+
+export interface DocsHealthReport {
+  orphans: OrphanDoc[];
+  missingNavEntries: MissingNavEntry[];
+  brokenLinks: BrokenLink[];
+}
+
+interface DocLink {
+  line: number;
+  text: string;
+  href: string;
+  target: string;
+}
+
+/* Source directories scanned for hard-coded `/docs/...` links */
+const APP_SOURCE_DIRECTORIES = ["app", "components"];
+
+const DOCS_URL_LITERAL_REGEX =
+  /(["'`])(\/docs(?:\/[^"'`\s?#$]*)?)(?:[?#][^"'`\s$]*)?\1/g;
+
+/* Anchor ids per parsed doc; a re-parsed doc is a new object */
+const anchorCache = new WeakMap<Doc, Set<string>>();
+
+export function docFile(doc: Doc): string {
+  return `lib/docs/${doc.realSlug || doc.slug}.md`;
+}
+
+function docUrl(doc: Doc): string {
+  return doc.slug ? `/docs/${doc.slug}` : "/docs";
+}
+
+/**
+ * Valid `#fragment`s of a doc's page: the ids its headings render with
+ * and the `note-<id>` anchors of its annotations.
+ */
+export function getDocAnchors(doc: Doc): Set<string> {
+  let anchors = anchorCache.get(doc);
+  if (!anchors) {
+    anchors = new Set([
+      ...extractHeadings(doc.content).map((h) => h.id),
+      ...noteAnchors(doc.content),
+    ]);
+    anchorCache.set(doc, anchors);
+  }
+  return anchors;
+}
+
+function decodeFragment(fragment: string): string {
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+}
+
+function lineAt(text: string, index: number): number {
+  return text.substring(0, index).split("\n").length;
+}
+
+/**
+ * Blanks out fenced code so that `[a](b)` inside examples is not taken for
+ * a link. Line breaks are kept so reported line numbers stay right.
+ */
+function maskCodeFences(content: string): string {
+  let fence: string | null = null;
+  return content
+    .split("\n")
+    .map((line) => {
+      const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+      if (fence) {
+        if (marker && marker[0] === fence[0] && marker.length >= fence.length) {
+          fence = null;
+        }
+        return "";
+      }
+      if (marker) {
+        fence = marker;
+        return "";
+      }
+      return line.replace(/`[^`\n]*`/g, (code) => " ".repeat(code.length));
+    })
+    .join("\n");
+}
+
+/**
+ * Internal links of a doc: markdown links outside code, plus the
+ * `<link to="...">` tags of code annotations. Read from the file as
+ * written, so included partials are checked once, in their own file.
+ */
+export function getDocLinks(doc: Doc): DocLink[] {
+  // Comments are dropped before rendering, blank them in place
+  const content = (doc.source ?? doc.content).replace(
+    /<!--[\s\S]*?-->/g,
+    (comment) => comment.replace(/[^\n]/g, " "),
+  );
+  const firstLine = doc.contentLine || 1;
+  const links: DocLink[] = [];
+
+  const prose = maskCodeFences(content);
+  for (const match of prose.matchAll(MARKDOWN_LINK_REGEX)) {
+    const [, text, href] = match;
+    // A partial's own page is whichever page includes it
+    if (href.startsWith("#") && isPartial(doc.realSlug || "")) continue;
+    // Same-page anchors are left as is when rendering, check them here
+    const target = href.startsWith("#")
+      ? `${docUrl(doc)}${href}`
+      : rewriteDocHref(href, doc.version);
+    if (target === null) continue;
+    links.push({
+      line: firstLine - 1 + lineAt(prose, match.index),
+      text,
+      href,
+      target,
+    });
+  }
+
+  for (const match of content.matchAll(ANNOTATION_LINK_REGEX)) {
+    const [, href, text] = match;
+    if (!href.startsWith("/docs")) continue;
+    links.push({
+      line: firstLine - 1 + lineAt(content, match.index),
+      text,
+      href,
+      target: href,
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Doc a site URL resolves to, or null when it would 404.
+ */
+export function resolveDocsUrl(url: string): Doc | null {
+  const slug = docsUrlToSlug(url);
+  return slug === null ? null : findDoc(slug);
+}
+
+/**
+ * Resolves every internal link of a doc, fragments included.
+ */
+function checkDocLinks(doc: Doc): { targets: Doc[]; broken: BrokenLink[] } {
+  const targets: Doc[] = [];
+  const broken: BrokenLink[] = [];
+
+  getDocLinks(doc).forEach((link) => {
+    const target = resolveDocsUrl(link.target);
+    if (!target) {
+      broken.push({ file: docFile(doc), ...link, reason: "missing-doc" });
+      return;
+    }
+    targets.push(target);
+
+    const { fragment } = splitFragment(link.target);
+    if (fragment && !getDocAnchors(target).has(decodeFragment(fragment))) {
+      broken.push({ file: docFile(doc), ...link, reason: "missing-anchor" });
+    }
+  });
+
+  return { targets, broken };
+}
+
+/**
+ * One-line description of a broken link for terminal output.
+ */
+export function formatBrokenLink(link: BrokenLink): string {
+  const problem =
+    link.reason === "missing-anchor"
+      ? "no such heading or note"
+      : "no such doc";
+  return `${link.file}:${link.line}  [${link.text}](${link.href}) -> ${link.target}  (${problem})`;
+}
+
+/**
+ * Internal links, across all docs and partials, whose target doc or
+ * heading is missing.
+ */
+export function getBrokenLinks(): BrokenLink[] {
+  const { bySlug, partials } = getContentIndex();
+  return [...bySlug.values(), ...partials.values()].flatMap(
+    (doc) => checkDocLinks(doc).broken,
+  );
+}
+
+function listSourceFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listSourceFiles(fullPath);
+    return /\.(tsx?|mdx?)$/.test(entry.name) && !entry.name.endsWith(".d.ts")
+      ? [fullPath]
+      : [];
+  });
+}
+
+function findHardcodedDocsLinks(): MissingNavEntry[] {
+  const root = process.cwd();
+  const entries: MissingNavEntry[] = [];
+
+  APP_SOURCE_DIRECTORIES.forEach((dir) => {
+    listSourceFiles(path.join(root, dir)).forEach((fullPath) => {
+      const source = fs.readFileSync(fullPath, "utf8");
+      const file = path.relative(root, fullPath).replace(/\\/g, "/");
+      for (const match of source.matchAll(DOCS_URL_LITERAL_REGEX)) {
+        entries.push({
+          title: match[2],
+          href: match[2],
+          source: `${file}:${lineAt(source, match.index)}`,
+        });
+      }
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Cross-checks the docs tree, the sidebar and every internal link.
+ *
+ * - orphans: docs that cannot be reached from the sidebar, directly or by
+ *   following links from pages that can
+ * - missingNavEntries: sidebar entries and hard-coded app links to `/docs`
+ *   that do not resolve to a doc
+ * - brokenLinks: internal doc links whose rewritten target does not resolve,
+ *   or points at a heading the target doc does not have
+ */
+export function getDocsHealthReport(): DocsHealthReport {
+  const { bySlug, partials } = getContentIndex();
+
+  const missingNavEntries: MissingNavEntry[] = [];
+  const brokenLinks: BrokenLink[] = [];
+  const linksBySlug = new Map<string, Doc[]>();
+
+  bySlug.forEach((doc) => {
+    const { targets, broken } = checkDocLinks(doc);
+    brokenLinks.push(...broken);
+    linksBySlug.set(doc.slug, targets);
+  });
+  partials.forEach((partial) => {
+    brokenLinks.push(...checkDocLinks(partial).broken);
+  });
+
+  // Walk from each version's home page and sidebar along doc links
+  const reachable = new Set<string>();
+  const queue: Doc[] = [];
+  const visit = (doc: Doc | null) => {
+    if (doc && !reachable.has(doc.slug)) {
+      reachable.add(doc.slug);
+      queue.push(doc);
+    }
+  };
+
+  getDocVersions().forEach((version) => {
+    visit(findDoc(versionedSlug(version.id, "")));
+    getDocsNavigation(version.id).forEach((group) => {
+      group.items.forEach((item) => {
+        const doc = resolveDocsUrl(item.href);
+        if (doc) {
+          visit(doc);
+        } else {
+          missingNavEntries.push({
+            title: item.title,
+            href: item.href,
+            source: `Sidebar › ${group.title}`,
+          });
+        }
+      });
+    });
+  });
+  while (queue.length > 0) {
+    linksBySlug.get(queue.shift()!.slug)?.forEach(visit);
+  }
+
+  findHardcodedDocsLinks().forEach((entry) => {
+    if (!resolveDocsUrl(entry.href)) missingNavEntries.push(entry);
+  });
+
+  const orphans: OrphanDoc[] = Array.from(bySlug.values())
+    .filter((doc) => !reachable.has(doc.slug))
+    .map((doc) => ({
+      slug: doc.slug,
+      file: docFile(doc),
+      title: doc.frontmatter.title || doc.slug,
+    }));
+
+  return { orphans, missingNavEntries, brokenLinks };
+}
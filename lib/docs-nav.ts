@@ -0,0 +1,168 @@
+import { Doc, getContentIndex, normalizeSlug } from "./content-index";
+import { docsConfig } from "./docs-config";
+import {
+  LATEST_VERSION,
+  splitVersion,
+  versionedHref,
+  versionedSlug,
+} from "./docs-versions";
+
+export interface NavItem {
+  title: string;
+  href: string;
+}
+
+export interface NavGroup {
+  title: string;
+  items: NavItem[];
+}
+
+/* Group for top-level docs that neither docsConfig nor frontmatter place */
+const FALLBACK_GROUP = "More Guides";
+
+interface AutoItem extends NavItem {
+  order: number;
+}
+
+function humanize(name: string): string {
+  return name
+    .replace(/[-_]+/g, " ")
+    .toLowerCase()
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function firstHeading(doc: Doc): string | undefined {
+  const match = doc.content.match(/^#\s+(.+)$/m);
+  return match?.[1].replace(/[*`_]/g, "").trim() || undefined;
+}
+
+function docTitle(doc: Doc): string {
+  return (
+    doc.frontmatter.title ||
+    firstHeading(doc) ||
+    humanize(doc.slug.split("/").pop() || "")
+  );
+}
+
+function docOrder(doc: Doc): number {
+  const order = Number(doc.frontmatter.order);
+  return Number.isFinite(order) ? order : Infinity;
+}
+
+/**
+ * Directory a doc is listed under: a README heads its own directory,
+ * everything else sits in its parent directory ("" for top-level files).
+ * Directories are taken inside the doc's version.
+ */
+function docDirectory(doc: Doc): string {
+  const realSlug = splitVersion(doc.realSlug || doc.slug).page;
+  if (/(^|\/)README$/i.test(realSlug)) {
+    return realSlug.replace(/\/?README$/i, "");
+  }
+  return realSlug.includes("/")
+    ? realSlug.substring(0, realSlug.lastIndexOf("/"))
+    : "";
+}
+
+/**
+ * Builds the sidebar from the docs tree.
+ *
+ * `docsConfig` is applied first as an override: its groups keep their
+ * order and titles, and the docs it lists stay where it puts them. Every
+ * other doc is placed from its frontmatter:
+ *
+ * - `section`        sidebar group (joins a docsConfig group of that name)
+ * - `order`          position inside the group, lowest first
+ * - `sidebar_label`  link text, defaults to `title` or the first `#` heading
+ * - `hidden: true`   keeps the doc out of the sidebar
+ *
+ * Docs without a `section` are grouped by directory, titled after the
+ * directory README when there is one.
+ *
+ * Each version has its own sidebar. An older version keeps the docsConfig
+ * entries it has a page for, pointed at its own copy.
+ */
+export function getDocsNavigation(version = LATEST_VERSION): NavGroup[] {
+  const { bySlug } = getContentIndex();
+  const listed = new Set<string>();
+
+  const groups: NavGroup[] = docsConfig.map((group) => ({
+    title: group.title,
+    items: group.items.flatMap((item) => {
+      const page = normalizeSlug(item.href.replace(/^\/docs\/?/, ""));
+      const slug = versionedSlug(version, page);
+      // The latest sidebar keeps missing pages, for the health report
+      if (version !== LATEST_VERSION && !bySlug.has(slug)) return [];
+      listed.add(slug);
+      return [{ title: item.title, href: versionedHref(version, page) }];
+    }),
+  }));
+
+  const findGroup = (title: string) =>
+    groups.find((g) => g.title.toLowerCase() === title.toLowerCase());
+
+  const autoItems = new Map<string, AutoItem[]>();
+  const directoryTitles = new Map<string, string>();
+
+  bySlug.forEach((doc) => {
+    if (doc.version !== version) return;
+
+    const directory = docDirectory(doc);
+    const isDirectoryIndex =
+      !!directory && splitVersion(doc.slug).page === normalizeSlug(directory);
+    if (isDirectoryIndex) {
+      directoryTitles.set(directory, docTitle(doc));
+    }
+
+    if (listed.has(doc.slug) || doc.frontmatter.hidden === true) return;
+
+    const section =
+      typeof doc.frontmatter.section === "string"
+        ? doc.frontmatter.section.trim()
+        : "";
+    const groupKey = section || `dir:${directory}`;
+
+    const items = autoItems.get(groupKey) || [];
+    items.push({
+      title: doc.frontmatter.sidebar_label || docTitle(doc),
+      href: `/docs/${doc.slug}`,
+      // A directory README leads its group unless told otherwise
+      order:
+        isDirectoryIndex && !section && doc.frontmatter.order === undefined
+          ? -Infinity
+          : docOrder(doc),
+    });
+    autoItems.set(groupKey, items);
+  });
+
+  const sortItems = (items: AutoItem[]) =>
+    items
+      .sort((a, b) => a.order - b.order || a.title.localeCompare(b.title))
+      .map(({ title, href }) => ({ title, href }));
+
+  const newGroups: NavGroup[] = [];
+  autoItems.forEach((items, groupKey) => {
+    const title = groupKey.startsWith("dir:")
+      ? groupKey === "dir:"
+        ? FALLBACK_GROUP
+        : directoryTitles.get(groupKey.substring(4)) ||
+          groupKey.substring(4).split("/").map(humanize).join(" / ")
+      : groupKey;
+
+    const existing = findGroup(title);
+    if (existing) {
+      existing.items.push(...sortItems(items));
+    } else {
+      newGroups.push({ title, items: sortItems(items) });
+    }
+  });
+
+  // New groups follow docsConfig by title, the catch-all group last
+  newGroups.sort((a, b) => {
+    if (a.title === FALLBACK_GROUP) return 1;
+    if (b.title === FALLBACK_GROUP) return -1;
+    return a.title.localeCompare(b.title);
+  });
+
+  return [...groups, ...newGroups].filter((group) => group.items.length > 0);
+}
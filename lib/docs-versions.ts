@@ -0,0 +1,107 @@
+/*
+ * Versions of the docs. The files at the root of `lib/docs` are the
+ * latest version, served at /docs/...; a top-level directory named after
+ * a version holds an older one, served under its name:
+ *
+ *   lib/docs/QUICK_START.md       /docs/quick_start
+ *   lib/docs/v5/QUICK_START.md    /docs/v5/quick_start
+ *
+ * /docs/latest/... redirects to /docs/.... No file access here, so the
+ * helpers work in client components too.
+ */
+
+export const LATEST_VERSION = "latest";
+
+const VERSION_DIRECTORY_REGEX = /^v\d+(?:\.\d+)*$/i;
+
+export interface DocVersion {
+  /* `latest`, or the directory name: `v5` */
+  id: string;
+  label: string;
+}
+
+export function isVersionDirectory(name: string): boolean {
+  return VERSION_DIRECTORY_REGEX.test(name);
+}
+
+/**
+ * Version of a slug or real slug and the page slug inside it:
+ * `v5/quick_start` -> `v5` and `quick_start`.
+ */
+export function splitVersion(slug: string): { version: string; page: string } {
+  const [first, ...rest] = slug.split("/");
+  if (isVersionDirectory(first)) {
+    return { version: first.toLowerCase(), page: rest.join("/") };
+  }
+  if (first.toLowerCase() === LATEST_VERSION) {
+    return { version: LATEST_VERSION, page: rest.join("/") };
+  }
+  return { version: LATEST_VERSION, page: slug };
+}
+
+/**
+ * Slug of a page in a version: `v5` and `quick_start` -> `v5/quick_start`.
+ */
+export function versionedSlug(version: string, page: string): string {
+  if (version === LATEST_VERSION) return page;
+  return page ? `${version}/${page}` : version;
+}
+
+export function versionedHref(version: string, page: string): string {
+  const slug = versionedSlug(version, page);
+  return slug ? `/docs/${slug}` : "/docs";
+}
+
+/**
+ * Version a docs URL path belongs to (`/docs/v5/routing` -> `v5`).
+ */
+export function versionFromPathname(pathname: string): string {
+  const match = pathname.match(/^\/docs\/([^/?#]+)/);
+  return match ? splitVersion(match[1]).version : LATEST_VERSION;
+}
+
+/**
+ * Where a request for `/docs/latest/...` is sent, or null for any other
+ * slug.
+ */
+export function latestAliasHref(slug: string): string | null {
+  if (slug.split("/")[0].toLowerCase() !== LATEST_VERSION) return null;
+  return versionedHref(LATEST_VERSION, splitVersion(slug).page);
+}
+
+/**
+ * Where switching from a docs page to another version leads: the same page
+ * when that version has it (`slugs` are the version's doc slugs), its home
+ * page otherwise.
+ */
+export function switchVersionHref(
+  pathname: string,
+  version: string,
+  slugs: string[],
+): string {
+  const slug = decodeURIComponent(pathname)
+    .replace(/^\/docs\/?/, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+  const { page } = splitVersion(slug);
+  return slugs.includes(versionedSlug(version, page))
+    ? versionedHref(version, page)
+    : versionedHref(version, "");
+}
+
+/**
+ * Newest first: `latest`, then `v6`, `v5.2`, `v5`.
+ */
+export function compareVersions(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a === LATEST_VERSION) return -1;
+  if (b === LATEST_VERSION) return 1;
+
+  const partsA = a.substring(1).split(".").map(Number);
+  const partsB = b.substring(1).split(".").map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsB[i] ?? 0) - (partsA[i] ?? 0);
+    if (diff) return diff;
+  }
+  return 0;
+}
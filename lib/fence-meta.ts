@@ -0,0 +1,23 @@
+/*
+ * Fence meta: whatever follows the language on the opening line of a code
+ * fence, e.g. ```bash title="xfpm"
+ *
+ *   title="xfpm"   quoted value (single or double quotes)
+ *   title=xfpm     bare value, up to the next space
+ *   flag           bare word, read as `true`
+ */
+
+export type FenceMeta = Record<string, string | true>;
+
+const META_TOKEN_REGEX = /([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|(\S+)))?/g;
+
+export function parseFenceMeta(meta: string | null | undefined): FenceMeta {
+  const result: FenceMeta = {};
+  if (!meta) return result;
+
+  for (const match of meta.matchAll(META_TOKEN_REGEX)) {
+    const [, key, doubleQuoted, singleQuoted, bare] = match;
+    result[key] = doubleQuoted ?? singleQuoted ?? bare ?? true;
+  }
+  return result;
+}
@@ -0,0 +1,94 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import { toString } from "mdast-util-to-string";
+import type { Heading, Root, RootContent } from "mdast";
+import { Slugger } from "./slugger";
+
+export interface DocHeading {
+  depth: number;
+  text: string;
+  id: string;
+}
+
+export interface DocSection {
+  /* Heading opening the section, null for the text before the first one */
+  heading: DocHeading | null;
+  /* Raw markdown of the section body, heading line excluded */
+  content: string;
+}
+
+function parseMarkdown(markdown: string): Root {
+  return unified().use(remarkParse).use(remarkGfm).parse(markdown);
+}
+
+/**
+ * Every heading of the tree (h1-h6, nested ones included) in document
+ * order, with the id the renderer gives it.
+ */
+function slugHeadings(tree: Root): Map<Heading, DocHeading> {
+  const slugger = new Slugger();
+  const headings = new Map<Heading, DocHeading>();
+  const walk = (node: Root | RootContent) => {
+    if (node.type === "heading") {
+      const text = toString(node, { includeHtml: false }).trim();
+      headings.set(node, { depth: node.depth, text, id: slugger.slug(text) });
+    } else if ("children" in node) {
+      node.children.forEach(walk);
+    }
+  };
+  walk(tree);
+  return headings;
+}
+
+/**
+ * Headings of a document, in order, optionally limited to some depths.
+ */
+export function extractHeadings(
+  markdown: string,
+  depths: number[] = [1, 2, 3, 4, 5, 6],
+): DocHeading[] {
+  return Array.from(slugHeadings(parseMarkdown(markdown)).values()).filter(
+    (heading) => depths.includes(heading.depth),
+  );
+}
+
+/**
+ * Splits a document into sections at every heading of the given depths.
+ * Headings are read from the markdown tree, so `#` lines inside code
+ * fences never start a section.
+ */
+export function splitSections(
+  markdown: string,
+  depths: number[] = [2, 3],
+): DocSection[] {
+  const tree = parseMarkdown(markdown);
+  const headings = slugHeadings(tree);
+  const sections: DocSection[] = [];
+  let current: { heading: DocHeading | null; start: number } = {
+    heading: null,
+    start: 0,
+  };
+
+  const close = (end: number) => {
+    sections.push({
+      heading: current.heading,
+      content: markdown.substring(current.start, end),
+    });
+  };
+
+  tree.children.forEach((node) => {
+    if (node.type !== "heading" || !depths.includes(node.depth)) return;
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start === undefined || end === undefined) return;
+
+    close(start);
+    current = { heading: headings.get(node) ?? null, start: end };
+  });
+  close(markdown.length);
+
+  return sections.filter(
+    (section) => section.heading || section.content.trim(),
+  );
+}
@@ -0,0 +1,45 @@
+import type { Element, ElementContent } from "hast";
+import { splitByTags } from "./annotations";
+import { lowlight, resolveLanguage } from "./languages";
+
+/* hast tag standing for an annotation trigger, rendered as `CommentTrigger` */
+export const ANNOTATION_TRIGGER_TAG = "annotation-trigger";
+
+/**
+ * Highlighted tokens of `code`, or the code as plain text when no grammar
+ * is registered for `language` (see `lib/languages.ts`).
+ */
+export function highlightCode(
+  code: string,
+  language: string,
+): ElementContent[] {
+  if (!code) return [];
+  const name = resolveLanguage(language);
+  if (!name) return [{ type: "text", value: code }];
+  return lowlight.highlight(name, code).children as ElementContent[];
+}
+
+/**
+ * Highlighted code with `ANNOTATION_TRIGGER_TAG` elements in place of the
+ * annotation tags. Code between tags is highlighted piece by piece so a
+ * tag never ends up split across tokens.
+ */
+export function highlightAnnotatedCode(
+  code: string,
+  language: string,
+): ElementContent[] {
+  return splitByTags(code).flatMap((part): ElementContent[] => {
+    if (part.type === "code") return highlightCode(part.content, language);
+
+    const trigger: Element = {
+      type: "element",
+      tagName: ANNOTATION_TRIGGER_TAG,
+      properties:
+        part.type === "master"
+          ? { id: part.id, content: part.content }
+          : { id: part.id, isSecondary: true },
+      children: [],
+    };
+    return [trigger];
+  });
+}
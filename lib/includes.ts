@@ -0,0 +1,104 @@
+/*
+ * Shared snippets for the docs. A line holding only
+ *
+ *   <!-- include: _partials/sys-config.md -->
+ *
+ * is replaced by that file, its path taken from `lib/docs`. Files and
+ * directories starting with `_` are partials: they can be included but
+ * are not pages of their own.
+ */
+
+const INCLUDE_DIRECTIVE_REGEX = /^[ \t]*<!--\s*include:\s*(\S+?)\s*-->[ \t]*$/;
+
+/* Opening or closing line of a fence, in a list or quote too */
+const FENCE_REGEX = /^[ \t>]*(`{3,}|~{3,})(.*)$/;
+
+/**
+ * For each line, whether it is part of fenced code, where a directive is
+ * only shown.
+ */
+function fencedLines(lines: string[]): boolean[] {
+  let openFence: string | null = null;
+
+  return lines.map((line) => {
+    const [, fence, rest] = line.match(FENCE_REGEX) ?? [];
+    if (openFence === null) {
+      if (fence) openFence = fence;
+      return fence !== undefined;
+    }
+    // A closing fence is at least as long as the opening one, and bare
+    if (
+      fence &&
+      fence[0] === openFence[0] &&
+      fence.length >= openFence.length &&
+      !rest.trim()
+    ) {
+      openFence = null;
+    }
+    return true;
+  });
+}
+
+export function hasIncludes(content: string): boolean {
+  const lines = content.split("\n");
+  const fenced = fencedLines(lines);
+  return lines.some(
+    (line, index) => !fenced[index] && INCLUDE_DIRECTIVE_REGEX.test(line),
+  );
+}
+
+/**
+ * Whether a real slug (`_partials/sys-config`) names a partial.
+ */
+export function isPartial(realSlug: string): boolean {
+  return realSlug.split("/").some((segment) => segment.startsWith("_"));
+}
+
+function includeSlug(includePath: string): string {
+  return includePath
+    .replace(/\\/g, "/")
+    .replace(/^(?:\.\/|\/)+/, "")
+    .replace(/\.md$/, "");
+}
+
+/**
+ * Content with its include directives replaced, partials included from
+ * partials too. Directives in fenced code are left as written. A missing
+ * partial or an include cycle leaves the directive in place (comments
+ * are not rendered) and logs a warning.
+ */
+export function resolveIncludes(
+  content: string,
+  getPartial: (realSlug: string) => string | undefined,
+  trail: string[] = [],
+): string {
+  const lines = content.split("\n");
+  const fenced = fencedLines(lines);
+
+  return lines
+    .map((line, index) => {
+      const includePath = fenced[index]
+        ? undefined
+        : line.match(INCLUDE_DIRECTIVE_REGEX)?.[1];
+      if (includePath === undefined) return line;
+
+      const realSlug = includeSlug(includePath);
+      const partial = getPartial(realSlug);
+
+      if (partial === undefined) {
+        console.warn(`Docs include not found: ${includePath}`);
+        return line;
+      }
+      if (trail.includes(realSlug)) {
+        console.warn(
+          `Docs include cycle: ${[...trail, realSlug].join(" -> ")}`,
+        );
+        return line;
+      }
+      return resolveIncludes(partial, getPartial, [...trail, realSlug]).replace(
+        /\n+$/,
+        "",
+      );
+    })
+    .join("\n");
+}
@@ -0,0 +1,147 @@
+import { createLowlight } from "lowlight";
+import type { LanguageFn } from "highlight.js";
+import bash from "highlight.js/lib/languages/bash";
+import css from "highlight.js/lib/languages/css";
+import diff from "highlight.js/lib/languages/diff";
+import dockerfile from "highlight.js/lib/languages/dockerfile";
+import ini from "highlight.js/lib/languages/ini";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import markdown from "highlight.js/lib/languages/markdown";
+import nginx from "highlight.js/lib/languages/nginx";
+import plaintext from "highlight.js/lib/languages/plaintext";
+import powershell from "highlight.js/lib/languages/powershell";
+import python from "highlight.js/lib/languages/python";
+import rust from "highlight.js/lib/languages/rust";
+import shell from "highlight.js/lib/languages/shell";
+import sql from "highlight.js/lib/languages/sql";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import yaml from "highlight.js/lib/languages/yaml";
+
+/*
+ * Languages the docs can be highlighted in. Each grammar brings its own
+ * aliases (`ts`, `toml` for ini, `html` for xml, `ps1`, `yml`, ...), extra
+ * ones go in `LANGUAGE_ALIASES`. Anything else renders as plain text.
+ */
+const LANGUAGES: Record<string, LanguageFn> = {
+  bash,
+  css,
+  diff,
+  dockerfile,
+  ini,
+  javascript,
+  json,
+  markdown,
+  nginx,
+  plaintext,
+  powershell,
+  python,
+  rust,
+  shell,
+  sql,
+  typescript,
+  xml,
+  yaml,
+};
+
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  bash: ["shell-script"],
+  json: ["json5"],
+  typescript: ["typescriptreact"],
+};
+
+export const lowlight = createLowlight(LANGUAGES);
+lowlight.registerAlias(LANGUAGE_ALIASES);
+
+/**
+ * Adds a grammar to the registry, e.g. from a page that needs a rare one.
+ */
+export function registerLanguage(
+  name: string,
+  grammar: LanguageFn,
+  aliases: string[] = [],
+) {
+  lowlight.register(name, grammar);
+  if (aliases.length > 0) lowlight.registerAlias(name, aliases);
+}
+
+/**
+ * Registered name for a fence language, matched case-insensitively, or
+ * null when there is no grammar for it.
+ */
+export function resolveLanguage(language: string): string | null {
+  const name = language.trim().toLowerCase();
+  return name && lowlight.registered(name) ? name : null;
+}
+
+/*
+ * Guesses for untagged fences, tried in order. They only need to catch
+ * the common cases; anything else is shown as plain text, which beats
+ * highlighting console output or diagrams as shell.
+ */
+const DETECTORS: { language: string; test: (code: string) => boolean }[] = [
+  {
+    language: "json",
+    test: (code) => {
+      if (!/^\s*[{[]/.test(code)) return false;
+      try {
+        JSON.parse(code);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  },
+  {
+    language: "typescript",
+    test: (code) =>
+      /^\s*import\s[\s\S]*?(?:from\s+["']|[{=])/m.test(code) ||
+      // Not shell's `export NODE_ENV=production`
+      /^\s*export\s+(?:(?:const|let|var|function|class|default|type|interface|enum|async)\b|\{|\*)/m.test(
+        code,
+      ) ||
+      /^\s*(?:const|let|var|function|class|interface|type|async function)\s+\w+/m.test(
+        code,
+      ) ||
+      /^\s*(?:app|server|router)\.\w+\(/m.test(code),
+  },
+  {
+    language: "dockerfile",
+    test: (code) => /^FROM\s+\S+/.test(code.trimStart()),
+  },
+  {
+    language: "xml",
+    test: (code) => /^<(?:[a-z!?][\w-]*)[\s>]/i.test(code.trimStart()),
+  },
+  {
+    language: "ini",
+    test: (code) =>
+      /^\[[\w.-]+\]\s*$/m.test(code) &&
+      code
+        .split("\n")
+        .every((line) =>
+          /^\s*(?:$|[#;]|\[[\w.-]+\]\s*$|[\w.-]+\s*=)/.test(line),
+        ),
+  },
+  {
+    language: "bash",
+    test: (code) =>
+      code
+        .split("\n")
+        .filter((line) => line.trim())
+        .every((line) =>
+          /^\s*(?:\$ |#|(?:npm|npx|yarn|pnpm|bun|xfpm|xyp|node|curl|wget|cd|git|sudo|mkdir|export|docker)\s)/.test(
+            line,
+          ),
+        ),
+  },
+];
+
+/**
+ * Language of an untagged fence, judged from its content, or null.
+ */
+export function detectLanguage(code: string): string | null {
+  if (!code.trim()) return null;
+  return DETECTORS.find((detector) => detector.test(code))?.language ?? null;
+}
@@ -0,0 +1,196 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import type { Element, ElementContent, Root, RootContent } from "hast";
+import { stripAnnotations } from "./annotations";
+import { remarkCallouts } from "./callouts";
+import {
+  parseLineRanges,
+  stripLineMarkers,
+  toLineElements,
+  withoutLineRanges,
+} from "./code-lines";
+import { parseFenceMeta } from "./fence-meta";
+import { highlightAnnotatedCode } from "./highlight";
+import { detectLanguage } from "./languages";
+import { remarkAnnotations } from "./prose-annotations";
+import { rehypeHeadingIds } from "./slugger";
+
+/* hast tag wrapping each fenced block, rendered with the copy button */
+export const CODE_BLOCK_TAG = "code-block";
+
+/* hast tag gathering consecutive titled blocks as tabs, see `CodeGroup`.
+ * `tabs` holds the JSON of each tab's title and text to copy. */
+export const CODE_GROUP_TAG = "code-group";
+
+/* Inline code is highlighted as shell, as it always was. Untagged fences
+ * get a guessed language instead, or none. */
+const INLINE_LANGUAGE = "bash";
+const PLAIN_LANGUAGE = "plaintext";
+
+function codeText(node: ElementContent): string {
+  if (node.type === "text") return node.value;
+  return "children" in node ? node.children.map(codeText).join("") : "";
+}
+
+function codeClasses(code: Element): string[] {
+  const className = code.properties.className;
+  return (Array.isArray(className) ? className : []).map(String);
+}
+
+function codeLanguage(code: Element): string | null {
+  const languageClass = codeClasses(code).find((name) =>
+    name.startsWith("language-"),
+  );
+  return languageClass?.substring("language-".length) || null;
+}
+
+function highlightCodeElement(code: Element) {
+  code.children = highlightAnnotatedCode(
+    codeText(code),
+    codeLanguage(code) ?? INLINE_LANGUAGE,
+  );
+}
+
+/**
+ * Highlights a fenced block line by line, applying its fence meta and line
+ * markers. Returns the block's title and the text to copy.
+ */
+function highlightFencedCode(code: Element): {
+  title?: string;
+  copyText: string;
+} {
+  const text = codeText(code);
+  const meta = code.data?.meta;
+  const { title, showLineNumbers } = parseFenceMeta(withoutLineRanges(meta));
+  const tagged = codeLanguage(code);
+  const language =
+    tagged ?? detectLanguage(stripAnnotations(text)) ?? PLAIN_LANGUAGE;
+  const { lines, marks } = toLineElements(
+    highlightAnnotatedCode(text, language),
+    parseLineRanges(meta),
+  );
+
+  code.children = lines.flatMap((line, index): ElementContent[] =>
+    index === 0 ? [line] : [{ type: "text", value: "\n" }, line],
+  );
+  code.properties.className = [
+    ...codeClasses(code),
+    ...(tagged ? [] : [`language-${language}`]),
+    ...(showLineNumbers ? ["line-numbers"] : []),
+    ...(marks.has("focus") ? ["has-focus"] : []),
+  ];
+
+  return {
+    title: typeof title === "string" ? title : undefined,
+    copyText: stripAnnotations(stripLineMarkers(text.replace(/\n$/, ""))),
+  };
+}
+
+function isTitledBlock(node: RootContent): node is Element {
+  return (
+    node.type === "element" &&
+    node.tagName === CODE_BLOCK_TAG &&
+    typeof node.properties.title === "string"
+  );
+}
+
+/**
+ * Replaces runs of two or more titled code blocks, with nothing but
+ * whitespace between them, by a single `CODE_GROUP_TAG` element.
+ */
+function groupCodeBlocks(node: Root | Element) {
+  const children: RootContent[] = [];
+  let index = 0;
+
+  while (index < node.children.length) {
+    const run: Element[] = [];
+    let end = index;
+    for (let i = index; i < node.children.length; i++) {
+      const child = node.children[i];
+      if (isTitledBlock(child)) {
+        run.push(child);
+        end = i + 1;
+      } else if (child.type !== "text" || child.value.trim()) {
+        break;
+      }
+    }
+
+    if (run.length < 2) {
+      children.push(node.children[index]);
+      index++;
+      continue;
+    }
+
+    children.push({
+      type: "element",
+      tagName: CODE_GROUP_TAG,
+      properties: {
+        tabs: JSON.stringify(
+          run.map((block) => ({
+            title: block.properties.title,
+            code: block.properties.code,
+          })),
+        ),
+      },
+      children: run.map((block) => block.children[0]),
+    });
+    index = end;
+  }
+
+  node.children = children as typeof node.children;
+}
+
+/**
+ * Highlights every `code` element (inline ones included), turns annotation
+ * tags into triggers and wraps fenced blocks in `CODE_BLOCK_TAG` with the
+ * text to copy and their `title=`, then groups titled blocks into tabs.
+ * Fenced blocks are split into `span.code-line`s, see `lib/code-lines.ts`.
+ */
+function rehypeCodeBlocks() {
+  return (tree: Root) => {
+    const visit = (node: Root | Element) => {
+      node.children.forEach((child: RootContent, index) => {
+        if (child.type !== "element") return;
+
+        const code = child.children[0];
+        if (
+          child.tagName === "pre" &&
+          code?.type === "element" &&
+          code.tagName === "code"
+        ) {
+          const { title, copyText } = highlightFencedCode(code);
+          node.children[index] = {
+            type: "element",
+            tagName: CODE_BLOCK_TAG,
+            properties: { code: copyText, title },
+            children: [child],
+          };
+        } else if (child.tagName === "code") {
+          highlightCodeElement(child);
+        } else {
+          visit(child);
+        }
+      });
+      groupCodeBlocks(node);
+    };
+    visit(tree);
+  };
+}
+
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkCallouts)
+  .use(remarkAnnotations)
+  .use(remarkRehype)
+  .use(rehypeHeadingIds)
+  .use(rehypeCodeBlocks);
+
+/**
+ * Markdown to the hast tree the docs render, highlighting included.
+ */
+export function markdownToHast(markdown: string): Root {
+  return processor.runSync(processor.parse(markdown));
+}
@@ -0,0 +1,102 @@
+import type { Parent, PhrasingContent, Root, RootContent, Text } from "mdast";
+import { toString } from "mdast-util-to-string";
+import { ANNOTATION_TAG_REGEX, CodePart, splitByTags } from "./annotations";
+import { ANNOTATION_TRIGGER_TAG } from "./highlight";
+
+/*
+ * Annotations written in paragraphs, list items and table cells, with the
+ * same `[!#id::...]` / `[!^id::]` syntax as in code. They become the same
+ * `ANNOTATION_TRIGGER_TAG` elements, so a note opened from prose and one
+ * opened from code are one note.
+ *
+ * A tag may be split over several mdast nodes, e.g. by a
+ * `<link to="...">` in its content, so each run of phrasing nodes is read
+ * as one string, other nodes standing in as `NODE_PLACEHOLDER`.
+ */
+
+const NODE_PLACEHOLDER = "\uFFFC";
+
+/* Nodes whose children are phrasing content. Headings are skipped, their
+ * text being their anchor. */
+const PROSE_PARENTS = new Set<string>([
+  "paragraph",
+  "tableCell",
+  "emphasis",
+  "strong",
+  "delete",
+]);
+
+function toTrigger(part: Exclude<CodePart, { type: "code" }>): Text {
+  return {
+    type: "text",
+    value: "",
+    data: {
+      hName: ANNOTATION_TRIGGER_TAG,
+      hProperties:
+        part.type === "master"
+          ? { id: part.id, content: part.content }
+          : { id: part.id, isSecondary: true },
+    },
+  };
+}
+
+/**
+ * Raw text of a node inside a tag: HTML as written (for `<link>`), any
+ * other node as its text.
+ */
+function rawText(node: PhrasingContent): string {
+  return node.type === "html" ? node.value : toString(node);
+}
+
+function annotateChildren(parent: Parent) {
+  const children = parent.children as PhrasingContent[];
+  let joined = "";
+  const nodes: PhrasingContent[] = [];
+  children.forEach((child) => {
+    if (child.type === "text") {
+      joined += child.value;
+    } else {
+      joined += NODE_PLACEHOLDER;
+      nodes.push(child);
+    }
+  });
+  if (!new RegExp(ANNOTATION_TAG_REGEX.source).test(joined)) return;
+
+  let nodeIndex = 0;
+  const takeNodes = (text: string): PhrasingContent[] =>
+    text.split(NODE_PLACEHOLDER).flatMap((value, index) => {
+      const result: PhrasingContent[] = [];
+      if (index > 0) result.push(nodes[nodeIndex++]);
+      if (value) result.push({ type: "text", value });
+      return result;
+    });
+
+  // Tag contents get the raw text of the nodes they swallowed
+  const withRawNodes = (text: string) =>
+    text.replace(new RegExp(NODE_PLACEHOLDER, "g"), () =>
+      rawText(nodes[nodeIndex++]),
+    );
+
+  parent.children = splitByTags(joined).flatMap((part) => {
+    if (part.type === "code") return takeNodes(part.content);
+    if (part.type === "master") {
+      return [toTrigger({ ...part, content: withRawNodes(part.content) })];
+    }
+    return [toTrigger(part)];
+  });
+}
+
+/**
+ * Remark plugin turning annotation tags in prose into trigger elements.
+ * Code is left alone: fenced blocks get theirs when highlighted.
+ */
+export function remarkAnnotations() {
+  return (tree: Root) => {
+    const visit = (node: Root | RootContent) => {
+      if (!("children" in node) || node.type === "heading") return;
+      node.children.forEach(visit);
+      if (PROSE_PARENTS.has(node.type)) annotateChildren(node as Parent);
+    };
+    visit(tree);
+  };
+}
@@ -0,0 +1,28 @@
+import { SearchIndex, Searcher, createSearcher } from "./search-engine";
+
+/*
+ * Browser side of the prebuilt search index. The index is fetched once per
+ * version and shared by every component that queries it.
+ */
+const searchers = new Map<string, Promise<Searcher>>();
+
+export function loadSearcher(indexUrl: string): Promise<Searcher> {
+  let searcher = searchers.get(indexUrl);
+
+  if (!searcher) {
+    searcher = fetch(indexUrl)
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Search index request failed (${res.status})`);
+        }
+        return res.json() as Promise<SearchIndex>;
+      })
+      .then((index) => createSearcher(index.records));
+
+    /* Let a failed download be retried by the next caller */
+    searcher.catch(() => searchers.delete(indexUrl));
+    searchers.set(indexUrl, searcher);
+  }
+
+  return searcher;
+}
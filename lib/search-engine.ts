@@ -1,97 +1,187 @@
-import { getAllDocs, Doc } from "./doc-helper";
-import Fuse from "fuse.js";
+import Fuse, { FuseResult } from "fuse.js";
+import {
+  ParsedSearchQuery,
+  matchesPathFilter,
+  matchesSectionFilter,
+  parseSearchQuery,
+} from "./search-query";
+
+/**
+ * Search primitives shared by the server (`/api/search`) and the browser,
+ * which queries the prebuilt index without a round-trip. Nothing in here
+ * may touch the filesystem.
+ */
+
+/**
+ * One searchable section of a document. The text before the first h2/h3
+ * is its own section with an empty heading and anchor.
+ */
+export interface SearchRecord {
+  title: string;
+  slug: string;
+  /* Sidebar group of the doc, empty when it is not in the navigation */
+  section: string;
+  heading: string;
+  anchor: string;
+  description: string;
+  content: string;
+}
+
+export interface SearchIndex {
+  version: string;
+  records: SearchRecord[];
+}
 
 export interface SearchResult {
   title: string;
   slug: string;
+  section: string;
+  heading: string;
+  anchor: string;
   description: string;
   snippet: string;
   score: number;
 }
 
-export function searchDocs(query: string): SearchResult[] {
-  const allDocs = getAllDocs();
+export interface Searcher {
+  fuse: Fuse<SearchRecord>;
+  records: SearchRecord[];
+}
 
-  // De-duplicate docs by normalized slug
-  const docsMap = new Map<string, Doc>();
-  allDocs.forEach((doc) => {
-    if (!docsMap.has(doc.slug)) {
-      docsMap.set(doc.slug, doc);
-    }
-  });
-  const docs = Array.from(docsMap.values());
-
-  // Prepare data for Fuse
-  const searchData = docs.map((doc) => {
-    // Extract title from frontmatter or slug
-    const title =
-      doc.frontmatter.title || doc.slug.split("/").pop() || doc.slug;
-
-    // Create a clean version of content without tags and markdown
-    const cleanContent = doc.content
-      .replace(/\[![#^].*?::.*?\]/g, "") // Remove our internal tags
-      .replace(/<[\s\S]*?>/g, "") // Remove HTML
-      .replace(/[#*`]/g, ""); // Basic markdown clean
-
-    return {
-      title,
-      slug: doc.slug,
-      content: cleanContent,
-      description: doc.frontmatter.description || "",
-    };
-  });
+/* Keeps one long page from crowding every other result out */
+const MAX_SECTIONS_PER_DOC = 3;
 
-  const fuse = new Fuse(searchData, {
+/**
+ * Creates a clean version of content without tags and markdown
+ */
+export function cleanDocContent(content: string): string {
+  return content
+    .replace(/\[![#^].*?::.*?\]/g, "") // Remove our internal tags
+    .replace(/\[!(?:note|tip|warning|caution|security)\]/gi, "") // Callout markers
+    .replace(/<[\s\S]*?>/g, "") // Remove HTML
+    .replace(/[#*`]/g, ""); // Basic markdown clean
+}
+
+export function createSearcher(records: SearchRecord[]): Searcher {
+  const fuse = new Fuse(records, {
     keys: [
-      { name: "title", weight: 0.7 },
+      { name: "title", weight: 0.4 },
+      { name: "heading", weight: 0.3 },
       { name: "content", weight: 0.3 },
     ],
     includeMatches: true,
     threshold: 0.4,
     ignoreLocation: true,
   });
+  return { fuse, records };
+}
 
-  const results = fuse.search(query);
-
-  return results.map((res: any) => {
-    // Generate a snippet from the content match
-    const content = res.item.content;
-    let snippet = "";
-
-    // 1. Try to get snippet from Fuse matches
-    if (res.matches && res.matches.length > 0) {
-      const match = res.matches.find((m: any) => m.key === "content");
-      if (match && match.indices.length > 0) {
-        const [start, end] = match.indices[0];
-        const snippetStart = Math.max(0, start - 60);
-        const snippetEnd = Math.min(content.length, end + 100);
-        snippet =
-          "..." + content.substring(snippetStart, snippetEnd).trim() + "...";
-      }
-    }
+function buildSnippet(res: FuseResult<SearchRecord>, query: string): string {
+  const content = res.item.content;
+  let snippet = "";
 
-    // 2. Fallback: Manual search in content if no snippet yet or if it's just the start
-    if (!snippet || snippet.length < 20) {
-      const index = content.toLowerCase().indexOf(query.toLowerCase());
-      if (index !== -1) {
-        const snippetStart = Math.max(0, index - 60);
-        const snippetEnd = Math.min(content.length, index + 100);
-        snippet =
-          "..." + content.substring(snippetStart, snippetEnd).trim() + "...";
-      }
+  // 1. Try to get snippet from Fuse matches
+  if (res.matches && res.matches.length > 0) {
+    const match = res.matches.find((m) => m.key === "content");
+    if (match && match.indices.length > 0) {
+      const [start, end] = match.indices[0];
+      const snippetStart = Math.max(0, start - 60);
+      const snippetEnd = Math.min(content.length, end + 100);
+      snippet =
+        "..." + content.substring(snippetStart, snippetEnd).trim() + "...";
     }
+  }
 
-    // 3. Last fallback: Start of content
-    if (!snippet) {
-      snippet = content.substring(0, 140).trim() + "...";
+  // 2. Fallback: Manual search in content if no snippet yet or if it's just the start
+  if (!snippet || snippet.length < 20) {
+    const index = content.toLowerCase().indexOf(query.toLowerCase());
+    if (index !== -1) {
+      const snippetStart = Math.max(0, index - 60);
+      const snippetEnd = Math.min(content.length, index + 100);
+      snippet =
+        "..." + content.substring(snippetStart, snippetEnd).trim() + "...";
     }
+  }
+
+  // 3. Last fallback: Start of content
+  if (!snippet) {
+    snippet = content.substring(0, 140).trim() + "...";
+  }
+
+  return snippet;
+}
+
+/**
+ * Whether a record satisfies the exact parts of a query: phrases,
+ * exclusions and filters. Fuzzy scoring is left to Fuse.
+ */
+function matchesQuery(record: SearchRecord, query: ParsedSearchQuery) {
+  const haystack =
+    `${record.title}\n${record.heading}\n${record.content}`.toLowerCase();
+
+  if (!query.phrases.every((p) => haystack.includes(p.toLowerCase()))) {
+    return false;
+  }
+  if (query.exclusions.some((term) => haystack.includes(term))) {
+    return false;
+  }
+
+  // Filters of the same kind are alternatives, different kinds must all match
+  const sections = query.filters.filter((f) => f.key === "section");
+  const paths = query.filters.filter((f) => f.key === "path");
 
-    return {
+  return (
+    (sections.length === 0 ||
+      sections.some((f) => matchesSectionFilter(f.value, record.section))) &&
+    (paths.length === 0 ||
+      paths.some((f) => matchesPathFilter(f.value, record.slug)))
+  );
+}
+
+export function runSearch(
+  searcher: Searcher,
+  query: string | ParsedSearchQuery,
+): SearchResult[] {
+  const parsed = typeof query === "string" ? parseSearchQuery(query) : query;
+  const snippetQuery = parsed.phrases[0] || parsed.text;
+  const perDoc = new Map<string, number>();
+
+  // A query made only of filters lists everything they select
+  const matches: FuseResult<SearchRecord>[] = parsed.text
+    ? searcher.fuse.search(parsed.text)
+    : parsed.filters.length > 0
+      ? searcher.records.map((item, refIndex) => ({ item, refIndex }))
+      : [];
+
+  return matches
+    .filter((res) => matchesQuery(res.item, parsed))
+    .filter((res) => {
+      const count = perDoc.get(res.item.slug) || 0;
+      perDoc.set(res.item.slug, count + 1);
+      return count < MAX_SECTIONS_PER_DOC;
+    })
+    .map((res) => ({
       title: res.item.title,
       slug: res.item.slug,
+      section: res.item.section,
+      heading: res.item.heading,
+      anchor: res.item.anchor,
       description: res.item.description,
-      snippet,
+      snippet: buildSnippet(res, snippetQuery),
       score: res.score || 0,
-    };
-  });
+    }));
+}
+
+/**
+ * Page URL of a result, pointing at its section when it has one.
+ */
+export function getResultHref(result: SearchResult, query?: string): string {
+  // Highlight what was actually searched for, not the filter syntax
+  const parsed = query ? parseSearchQuery(query) : null;
+  const keyword = parsed?.phrases[0] || parsed?.text || "";
+  const params = query
+    ? `?q=${encodeURIComponent(query)}&kw=${encodeURIComponent(keyword)}`
+    : "";
+  const hash = result.anchor ? `#${result.anchor}` : "";
+  return `/docs/${result.slug}${params}${hash}`;
 }
@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import { getContentIndex } from "./content-index";
+import { normalizeSlug } from "./doc-helper";
+import { getDocsNavigation } from "./docs-nav";
+import { LATEST_VERSION } from "./docs-versions";
+import { splitSections } from "./headings";
+import {
+  SearchIndex,
+  SearchRecord,
+  Searcher,
+  cleanDocContent,
+  createSearcher,
+  runSearch,
+} from "./search-engine";
+import { ParsedSearchQuery } from "./search-query";
+
+/**
+ * Built indexes by docs version, keyed by the content index snapshot they
+ * were built from. The content index swaps its `bySlug` map whenever a doc
+ * changes, so a stale entry is simply never looked up again.
+ */
+const builtIndexes = new WeakMap<
+  object,
+  Map<string, { index: SearchIndex; searcher: Searcher }>
+>();
+
+/**
+ * Maps every doc slug listed in the sidebar to the title of its group,
+ * which is what `section:` filters select on.
+ */
+function getSectionsBySlug(docsVersion: string) {
+  const sections = new Map<string, string>();
+  getDocsNavigation(docsVersion).forEach((group) => {
+    group.items.forEach((item) => {
+      const slug = normalizeSlug(item.href.replace(/^\/docs\/?/, ""));
+      if (!sections.has(slug)) sections.set(slug, group.title);
+    });
+  });
+  return sections;
+}
+
+/**
+ * Index of one docs version: each version is searched on its own.
+ */
+function getBuiltIndex(docsVersion: string) {
+  const { bySlug } = getContentIndex();
+  let versions = builtIndexes.get(bySlug);
+  if (!versions) {
+    versions = new Map();
+    builtIndexes.set(bySlug, versions);
+  }
+  const cached = versions.get(docsVersion);
+  if (cached) return cached;
+
+  const groups = getSectionsBySlug(docsVersion);
+  const docs = Array.from(bySlug.values()).filter(
+    (doc) => doc.version === docsVersion,
+  );
+
+  // bySlug is already de-duplicated by normalized slug
+  const records: SearchRecord[] = docs.flatMap((doc) => {
+    // Extract title from frontmatter or slug
+    const title =
+      doc.frontmatter.title || doc.slug.split("/").pop() || doc.slug;
+    const description = doc.frontmatter.description || "";
+
+    return splitSections(doc.content).map((section) => ({
+      title,
+      slug: doc.slug,
+      section: groups.get(doc.slug) || "",
+      heading: section.heading?.text || "",
+      anchor: section.heading?.id || "",
+      description,
+      content: cleanDocContent(section.content),
+    }));
+  });
+
+  const version = crypto
+    .createHash("sha1")
+    .update(JSON.stringify([docsVersion, records]))
+    .digest("hex")
+    .substring(0, 12);
+
+  const built = {
+    index: { version, records },
+    searcher: createSearcher(records),
+  };
+  versions.set(docsVersion, built);
+  return built;
+}
+
+/**
+ * The full search index of a docs version as served to the browser.
+ */
+export function getSearchIndex(docsVersion = LATEST_VERSION): SearchIndex {
+  return getBuiltIndex(docsVersion).index;
+}
+
+/**
+ * Public URL of the static index. The content hash is part of the path so
+ * the file can be cached forever and still change on every docs update.
+ */
+export function getSearchIndexUrl(docsVersion = LATEST_VERSION): string {
+  return `/search-index/${getSearchIndex(docsVersion).version}.json`;
+}
+
+export function searchDocs(
+  query: string | ParsedSearchQuery,
+  docsVersion = LATEST_VERSION,
+) {
+  return runSearch(getBuiltIndex(docsVersion).searcher, query);
+}
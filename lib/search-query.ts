@@ -0,0 +1,100 @@
+/**
+ * Small query language understood by the documentation search:
+ *
+ * - `"trust proxy"`     exact phrase (case-insensitive)
+ * - `-cluster`          exclude sections containing a term or `-"a phrase"`
+ * - `section:security`  restrict to a sidebar group (see `getDocsNavigation`)
+ * - `path:api/system`   restrict to a directory under `lib/docs`, inside
+ *                       the version searched
+ *
+ * Everything else is fuzzy-matched as before.
+ */
+import { splitVersion } from "./docs-versions";
+
+export type SearchFilterKey = "section" | "path";
+
+export interface SearchFilter {
+  key: SearchFilterKey;
+  value: string;
+}
+
+export interface ParsedSearchQuery {
+  raw: string;
+  /* Free text handed to the fuzzy matcher */
+  text: string;
+  phrases: string[];
+  exclusions: string[];
+  filters: SearchFilter[];
+}
+
+const FILTER_KEYS: SearchFilterKey[] = ["section", "path"];
+
+const TOKEN_REGEX = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export function parseSearchQuery(raw: string): ParsedSearchQuery {
+  const terms: string[] = [];
+  const phrases: string[] = [];
+  const exclusions: string[] = [];
+  const filters: SearchFilter[] = [];
+
+  let match;
+  TOKEN_REGEX.lastIndex = 0;
+  while ((match = TOKEN_REGEX.exec(raw)) !== null) {
+    const [token, negate, prefix, quoted, bare] = match;
+    const value = (quoted ?? bare ?? "").trim();
+    const key = prefix?.toLowerCase() as SearchFilterKey | undefined;
+
+    if (key && FILTER_KEYS.includes(key) && !negate) {
+      if (value) filters.push({ key, value: value.toLowerCase() });
+    } else if (key) {
+      /* Not one of ours (e.g. `res.xJson:` or a URL), keep it as text */
+      terms.push(token.replace(/"/g, ""));
+    } else if (negate && value) {
+      exclusions.push(value.toLowerCase());
+    } else if (quoted !== undefined) {
+      if (value) phrases.push(value);
+    } else if (value) {
+      terms.push(value);
+    }
+  }
+
+  return {
+    raw,
+    text: [...terms, ...phrases].join(" "),
+    phrases,
+    exclusions,
+    filters,
+  };
+}
+
+/**
+ * Key used to address a sidebar group, e.g. "API Reference" -> "api-reference".
+ */
+export function toSectionKey(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Whether a filter value selects the given section title. Prefixes are
+ * accepted so that `section:plugins` finds the "Plugins System" group.
+ */
+export function matchesSectionFilter(value: string, title: string): boolean {
+  const key = toSectionKey(title);
+  const wanted = toSectionKey(value);
+  return !!key && !!wanted && key.startsWith(wanted);
+}
+
+/**
+ * Whether a filter value selects the given doc slug, by directory prefix.
+ * Older versions match on their page slug too: `api/system` selects
+ * `v5/api/system/...`.
+ */
+export function matchesPathFilter(value: string, slug: string): boolean {
+  const wanted = value.replace(/^\/+|\/+$/g, "").replace(/^docs\//, "");
+  return [slug, splitVersion(slug).page].some(
+    (candidate) => candidate === wanted || candidate.startsWith(`${wanted}/`),
+  );
+}
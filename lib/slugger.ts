@@ -0,0 +1,74 @@
+import type { Root, RootContent } from "hast";
+
+/*
+ * Heading anchor ids. Every place that needs the id of a heading (the
+ * rendered page, search anchors, link validation) goes through `Slugger`
+ * so they all agree, including on the `-1`, `-2` suffixes of repeated
+ * headings. Slugs follow GitHub's rules, so links written against the
+ * repository keep working on the site.
+ */
+
+const HEADING_TAG_REGEX = /^h[1-6]$/;
+
+/**
+ * Lowercases, drops punctuation and turns each whitespace character into
+ * a `-`, e.g. "Network & Storage" -> "network--storage".
+ */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\s-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Hands out unique slugs for one document. Use a new instance per
+ * document and feed it every heading (h1-h6) in document order.
+ */
+export class Slugger {
+  private occurrences = new Map<string, number>();
+
+  slug(text: string): string {
+    const base = slugify(text) || "section";
+    let slug = base;
+
+    while (this.occurrences.has(slug)) {
+      const count = this.occurrences.get(base)! + 1;
+      this.occurrences.set(base, count);
+      slug = `${base}-${count}`;
+    }
+    this.occurrences.set(slug, 0);
+
+    return slug;
+  }
+}
+
+/**
+ * Text of a rendered node. Image alt text is included to match
+ * `mdast-util-to-string`, which the markdown side uses.
+ */
+function elementText(node: Root | RootContent): string {
+  if (node.type === "text") return node.value;
+  if (node.type === "element" && node.tagName === "img") {
+    return String(node.properties.alt ?? "");
+  }
+  return "children" in node ? node.children.map(elementText).join("") : "";
+}
+
+/**
+ * Rehype plugin giving every heading its slug as `id`.
+ */
+export function rehypeHeadingIds() {
+  return (tree: Root) => {
+    const slugger = new Slugger();
+    const visit = (node: Root | RootContent) => {
+      if (node.type === "element" && HEADING_TAG_REGEX.test(node.tagName)) {
+        node.properties.id = slugger.slug(elementText(node));
+      } else if ("children" in node) {
+        node.children.forEach(visit);
+      }
+    };
+    visit(tree);
+  };
+}
@@ -0,0 +1,173 @@
+import fs from "fs";
+import path from "path";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import type { Code, Root, RootContent } from "mdast";
+import { parseFenceMeta } from "./fence-meta";
+
+/*
+ * Code fences filled from files of the repo, so examples cannot drift from
+ * the real thing:
+ *
+ *   ```json file="test.json"
+ *   ```
+ *
+ * The path is relative to the repo root, and must be listed in
+ * SNIPPET_FILES: a fixed list keeps the server bundle from tracing the
+ * whole repo. `#name` keeps only the lines between `#region name` and
+ * `#endregion` comments (line, block or HTML comments), dedented.
+ * Whatever the fence held is replaced.
+ */
+
+/* Files docs show, by their path in the repo. Not traced from here,
+ * next.config.ts ships them with the routes. */
+const SNIPPET_FILES: Record<string, string> = {
+  "test.json": path.join(
+    /* turbopackIgnore: true */ process.cwd(),
+    "test.json",
+  ),
+};
+
+const SNIPPET_FENCE_REGEX = /^[ \t>]*(?:`{3,}|~{3,})[^\n]*\bfile=/m;
+
+const REGION_MARKER_REGEX =
+  /^\s*(?:\/\/|#|<!--|\/\*)\s*#(region|endregion)\b\s*([\w-]*)/;
+
+export function hasSnippets(content: string): boolean {
+  return SNIPPET_FENCE_REGEX.test(content);
+}
+
+function dedent(lines: string[]): string[] {
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim())
+      .map((line) => line.match(/^\s*/)![0].length),
+  );
+  return Number.isFinite(indent)
+    ? lines.map((line) => line.substring(indent))
+    : lines;
+}
+
+/**
+ * Lines of a named region, or null when the file has no such region.
+ * Markers of other regions inside it are left out.
+ */
+function readRegion(source: string, name: string): string | null {
+  const lines = source.split("\n");
+  const start = lines.findIndex((line) => {
+    const marker = line.match(REGION_MARKER_REGEX);
+    return marker?.[1] === "region" && marker[2] === name;
+  });
+  if (start === -1) return null;
+
+  const body: string[] = [];
+  let depth = 0;
+  for (const line of lines.slice(start + 1)) {
+    const marker = line.match(REGION_MARKER_REGEX);
+    if (marker?.[1] === "endregion" && depth-- === 0) break;
+    if (marker?.[1] === "region") depth++;
+    if (!marker) body.push(line);
+  }
+  return dedent(body).join("\n");
+}
+
+/**
+ * Where a snippet path is read from, or null when docs may not show it.
+ */
+function snippetPath(file: string): string | null {
+  const relative = path.posix.normalize(file.replace(/\\/g, "/"));
+  return Object.hasOwn(SNIPPET_FILES, relative)
+    ? SNIPPET_FILES[relative]
+    : null;
+}
+
+/**
+ * Text a `file=` reference points at, or null (with a warning) when the
+ * file or region is missing or the path is not allowed.
+ */
+function readSnippet(reference: string): string | null {
+  const [file, region] = reference.split("#");
+  const fullPath = snippetPath(file);
+
+  if (!fullPath) {
+    console.warn(`Docs snippet must be listed in SNIPPET_FILES: ${reference}`);
+    return null;
+  }
+  if (!fs.existsSync(/* turbopackIgnore: true */ fullPath)) {
+    console.warn(`Docs snippet not found: ${reference}`);
+    return null;
+  }
+  const source = fs
+    .readFileSync(/* turbopackIgnore: true */ fullPath, "utf8")
+    .replace(/\r\n/g, "\n");
+  const text = region ? readRegion(source, region) : source;
+  if (text === null) {
+    console.warn(`Docs snippet region not found: ${reference}`);
+    return null;
+  }
+  return text.replace(/\n+$/, "");
+}
+
+function snippetFences(tree: Root): Code[] {
+  const fences: Code[] = [];
+  const walk = (node: Root | RootContent) => {
+    if (node.type === "code") {
+      if (typeof parseFenceMeta(node.meta).file === "string") {
+        fences.push(node);
+      }
+    } else if ("children" in node) {
+      node.children.forEach(walk);
+    }
+  };
+  walk(tree);
+  return fences;
+}
+
+/**
+ * Markdown with every `file=` fence filled in. The opening line is kept
+ * as written, so the fence's language and options still apply.
+ */
+export function resolveSnippets(content: string): string {
+  const tree = unified().use(remarkParse).use(remarkGfm).parse(content);
+  let result = content;
+
+  // From the end, so earlier offsets stay valid
+  snippetFences(tree)
+    .reverse()
+    .forEach((code) => {
+      const { start, end } = code.position!;
+      const text = readSnippet(parseFenceMeta(code.meta).file as string);
+      if (text === null) return;
+
+      const fence = content.substring(start.offset!, end.offset!);
+      const opening = fence.split("\n")[0];
+      const marker = opening.match(/`{3,}|~{3,}/)![0];
+      // Lines after the first keep the fence's place in lists and quotes
+      const lineStart = content.lastIndexOf("\n", start.offset! - 1) + 1;
+      const prefix = content
+        .substring(lineStart, start.offset!)
+        .replace(/[-*+]|\d+[.)]/g, (m) => " ".repeat(m.length));
+
+      const longest = Math.max(
+        0,
+        ...(text.match(new RegExp(`${marker[0]}{3,}`, "g")) || []).map(
+          (run) => run.length,
+        ),
+      );
+      const fenceMarker =
+        longest >= marker.length ? marker[0].repeat(longest + 1) : marker;
+
+      const lines = [
+        opening.replace(marker, fenceMarker),
+        ...text.split("\n").map((line) => prefix + line),
+        prefix + fenceMarker,
+      ];
+      result =
+        result.substring(0, start.offset!) +
+        lines.join("\n") +
+        result.substring(end.offset!);
+    });
+
+  return result;
+}
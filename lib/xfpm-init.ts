@@ -0,0 +1,131 @@
+import { validateConfig } from "./config-schema";
+
+/*
+ * `xfpm init` command of the landing page's Quick Start, built from a
+ * small form. The `__sys__` preview has the shape of `test.json` and is
+ * checked against the meta-config schema, which also covers the name and
+ * port given to the command.
+ */
+
+export type InitLanguage = "ts" | "js";
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
+
+export interface InitOptions {
+  name: string;
+  port: string;
+  author: string;
+  description: string;
+  /* Project template, passed as `--lang` */
+  language: InitLanguage;
+  /* Used to install the CLI */
+  packageManager: PackageManager;
+}
+
+export const INIT_LANGUAGES: { value: InitLanguage; label: string }[] = [
+  { value: "ts", label: "TypeScript" },
+  { value: "js", label: "JavaScript" },
+];
+
+export const PACKAGE_MANAGERS: PackageManager[] = [
+  "npm",
+  "pnpm",
+  "yarn",
+  "bun",
+];
+
+export const DEFAULT_INIT_OPTIONS: InitOptions = {
+  name: "my-app",
+  port: "4567",
+  author: "Nehonix-Team",
+  description: "A starter XyPriss server for building secure web applications",
+  language: "ts",
+  packageManager: "npm",
+};
+
+const CLI_PACKAGE = "xypriss-cli";
+
+const INSTALL_COMMANDS: Record<PackageManager, string> = {
+  npm: `npm install -g ${CLI_PACKAGE}`,
+  pnpm: `pnpm add -g ${CLI_PACKAGE}`,
+  yarn: `yarn global add ${CLI_PACKAGE}`,
+  bun: `bun add -g ${CLI_PACKAGE}`,
+};
+
+/* Version `xfpm init` starts a project at */
+const INITIAL_VERSION = "1.0.0";
+
+/**
+ * A shell argument, single-quoted unless it only holds safe characters.
+ */
+function shellArg(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value)
+    ? value
+    : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export function getInstallCommand(packageManager: PackageManager): string {
+  return INSTALL_COMMANDS[packageManager];
+}
+
+export function getInitCommand(options: InitOptions): string {
+  const flags: [string, string][] = [
+    ["--name", options.name],
+    ["--port", options.port],
+    ["--author", options.author],
+    ["--desc", options.description],
+    ["--lang", options.language],
+  ];
+  return [
+    "xfpm init",
+    ...flags
+      .filter(([, value]) => value.trim())
+      .map(([flag, value]) => `${flag} ${shellArg(value.trim())}`),
+  ].join(" ");
+}
+
+export function getDevCommand(options: InitOptions): string {
+  return `cd ${shellArg(options.name.trim() || DEFAULT_INIT_OPTIONS.name)} && xfpm dev`;
+}
+
+/**
+ * `__sys__` config of the new project, keys sorted as in `test.json`.
+ * A port that is not a number is kept as typed, for validation to catch.
+ */
+export function getSysConfig(options: InitOptions) {
+  const port = options.port.trim();
+  const name = options.name.trim();
+  const sys: Record<string, unknown> = {
+    __alias__: name,
+    __author__: options.author.trim(),
+    __description__: options.description.trim(),
+    __name__: name,
+    __port__: /^\d+$/.test(port) ? Number(port) : port,
+    __version__: INITIAL_VERSION,
+  };
+  return {
+    __sys__: Object.fromEntries(
+      Object.entries(sys).filter(([, value]) => value !== ""),
+    ),
+  };
+}
+
+/**
+ * What is wrong with the options, by field. Name and port are required.
+ */
+export function validateInitOptions(
+  options: InitOptions,
+): Partial<Record<keyof InitOptions, string>> {
+  const errors: Partial<Record<keyof InitOptions, string>> = {};
+  if (!options.name.trim()) errors.name = "a project name is required";
+  if (!options.port.trim()) errors.port = "a port is required";
+
+  const fields: Record<string, keyof InitOptions> = {
+    __name__: "name",
+    __port__: "port",
+  };
+  validateConfig(getSysConfig(options), "meta-config").forEach((issue) => {
+    const field = fields[String(issue.path[1])];
+    if (field) errors[field] ??= issue.message;
+  });
+  return errors;
+}
@@ -1,6 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Docs `file=` snippets, see SNIPPET_FILES in lib/snippets.ts
+  outputFileTracingIncludes: {
+    "/**": ["./test.json"],
+  },
   images: {
     remotePatterns: [
       {
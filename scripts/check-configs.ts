@@ -0,0 +1,26 @@
+/**
+ * Validates config examples against the JSON Schemas in `lib/schemas`:
+ * every JSON fence tagged `schema=<id>`, the `createServer()` options of
+ * TypeScript fences tagged the same way, and the repo's config files
+ * (`test.json`). Reports unknown keys, wrong types and invalid JSON.
+ *
+ *   npm run docs:configs
+ *
+ * Problems are listed as `file:line`; the exit code is non-zero if any.
+ */
+import { checkConfigExample, getAllConfigExamples } from "@/lib/doc-configs";
+
+const examples = getAllConfigExamples();
+const problems = examples.flatMap(checkConfigExample);
+
+if (problems.length === 0) {
+  console.log(`Docs configs: ${examples.length} config example(s) are valid.`);
+} else {
+  console.error(
+    `Docs configs: ${problems.length} problem(s) in ${examples.length} config example(s)`,
+  );
+  problems.forEach(({ file, line, message }) =>
+    console.error(`  ${file}:${line}  ${message}`),
+  );
+  process.exitCode = 1;
+}
@@ -0,0 +1,35 @@
+/**
+ * Reports orphaned docs, sidebar/app links to missing docs and broken
+ * internal links. Exits non-zero when anything is found.
+ *
+ *   npm run docs:check
+ */
+import { formatBrokenLink, getDocsHealthReport } from "@/lib/docs-health";
+
+function section(title: string, lines: string[]) {
+  console.log(`\n${title} (${lines.length})`);
+  if (lines.length === 0) console.log("  none");
+  lines.forEach((line) => console.log(`  ${line}`));
+}
+
+const report = getDocsHealthReport();
+
+section(
+  "Orphaned docs",
+  report.orphans.map((doc) => `${doc.file}  (/docs/${doc.slug})`),
+);
+section(
+  "Navigation entries without a doc",
+  report.missingNavEntries.map(
+    (entry) => `${entry.href}  "${entry.title}"  ${entry.source}`,
+  ),
+);
+section("Broken internal links", report.brokenLinks.map(formatBrokenLink));
+
+const problems =
+  report.orphans.length +
+  report.missingNavEntries.length +
+  report.brokenLinks.length;
+
+console.log(problems ? `\n${problems} problem(s) found.` : "\nAll good.");
+process.exitCode = problems ? 1 : 0;
@@ -0,0 +1,140 @@
+/**
+ * Type-checks every TypeScript example of the docs against the XyPriss
+ * API stub in `scripts/doc-examples/xypriss.d.ts`. Each fence is checked
+ * as a module of its own, annotations and line markers stripped as when
+ * copied. Opt a fence out with `nocheck` after its language.
+ *
+ *   npm run docs:examples
+ *
+ * Errors are listed as `file:line`; the exit code is non-zero if any.
+ */
+import path from "path";
+import ts from "typescript";
+import { CodeExample, getAllExamples } from "@/lib/doc-examples";
+
+const STUB_FILE = path.join(process.cwd(), "scripts/doc-examples/xypriss.d.ts");
+const EXAMPLES_DIR = path.join(process.cwd(), "__doc_examples__");
+
+/*
+ * Errors that only say an example is a fragment: names, modules or types
+ * defined elsewhere on the page or in the reader's project.
+ */
+const FRAGMENT_ERRORS = new Set([
+  2304, // Cannot find name
+  2503, // Cannot find namespace
+  2552, // Cannot find name, did you mean
+  2307, // Cannot find module (relative imports)
+  18004, // No value in scope for a shorthand property
+  2451, // Cannot redeclare: alternatives shown side by side
+  2582, // Test runner globals (`describe`, `it`)
+  2593,
+]);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  // No DOM lib: its globals (`Plugin`, `Request`) hide missing imports
+  lib: ["lib.es2022.d.ts"],
+  types: ["node"],
+  strict: false,
+  noEmit: true,
+  skipLibCheck: true,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  experimentalDecorators: true,
+};
+
+function createHost(files: Map<string, string>): ts.CompilerHost {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  const { getSourceFile, fileExists, readFile } = host;
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const code = files.get(path.resolve(fileName));
+    return code === undefined
+      ? getSourceFile(fileName, languageVersion, ...rest)
+      : ts.createSourceFile(fileName, code, languageVersion, true);
+  };
+  host.fileExists = (fileName) =>
+    files.has(path.resolve(fileName)) || fileExists(fileName);
+  host.readFile = (fileName) =>
+    files.get(path.resolve(fileName)) ?? readFile(fileName);
+  return host;
+}
+
+function formatDiagnostic(
+  diagnostic: ts.Diagnostic,
+  example: CodeExample,
+): string {
+  const { line } = diagnostic.file!.getLineAndCharacterOfPosition(
+    diagnostic.start!,
+  );
+  const message = ts
+    .flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+    .split("\n")[0];
+  return `${example.file}:${example.line + line}  TS${diagnostic.code}  ${message}`;
+}
+
+const examples = getAllExamples();
+const files = new Map<string, string>();
+const examplesByFile = new Map<string, CodeExample>();
+examples.forEach((example, index) => {
+  const fileName = path.join(EXAMPLES_DIR, `example-${index}.ts`);
+  files.set(fileName, example.code);
+  examplesByFile.set(fileName, example);
+});
+
+const host = createHost(files);
+const program = ts.createProgram({
+  rootNames: [STUB_FILE, ...files.keys()],
+  options: COMPILER_OPTIONS,
+  host,
+});
+
+function checkExample(fileName: string, example: CodeExample): string[] {
+  const sourceFile = program.getSourceFile(fileName)!;
+
+  // An example that does not parse gets one error, not the whole cascade
+  const [syntaxError] = program.getSyntacticDiagnostics(sourceFile);
+  if (syntaxError) {
+    return [
+      `${formatDiagnostic(syntaxError, example)} (not valid TypeScript: fix it, or mark the fence \`nocheck\`)`,
+    ];
+  }
+
+  return program
+    .getSemanticDiagnostics(sourceFile)
+    .filter(
+      (diagnostic) =>
+        diagnostic.category === ts.DiagnosticCategory.Error &&
+        !FRAGMENT_ERRORS.has(diagnostic.code),
+    )
+    .map((diagnostic) => formatDiagnostic(diagnostic, example));
+}
+
+// Problems with the stub or the options themselves come first
+const setupErrors = [
+  ...program.getOptionsDiagnostics(),
+  ...program.getGlobalDiagnostics(),
+  ...program.getSemanticDiagnostics(program.getSourceFile(STUB_FILE)),
+].map((diagnostic) => ts.formatDiagnostic(diagnostic, host).trim());
+
+const errors = [
+  ...setupErrors,
+  ...Array.from(examplesByFile).flatMap(([fileName, example]) =>
+    checkExample(fileName, example),
+  ),
+];
+
+if (errors.length === 0) {
+  console.log(
+    `Docs examples: ${examples.length} TypeScript example(s) type-check.`,
+  );
+} else {
+  console.error(
+    `Docs examples: ${errors.length} error(s) in ${examples.length} TypeScript example(s)`,
+  );
+  errors.forEach((error) => console.error(`  ${error}`));
+  process.exitCode = 1;
+}
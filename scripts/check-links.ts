@@ -0,0 +1,48 @@
+/**
+ * Checks every internal doc link, `#fragment` included, against the docs
+ * tree. Also runs before `next build`. What a broken link does depends on
+ * DOCS_LINK_CHECK (or `--mode=`, the variable wins):
+ *
+ *   fail  list broken links and exit non-zero (default)
+ *   warn  list broken links, exit zero
+ *   off   skip the check
+ *
+ *   npm run docs:links
+ *   DOCS_LINK_CHECK=fail npm run build
+ */
+import { formatBrokenLink, getBrokenLinks } from "@/lib/docs-health";
+
+const MODES = ["fail", "warn", "off"] as const;
+type Mode = (typeof MODES)[number];
+
+function getMode(): Mode {
+  const flag = process.argv
+    .find((arg) => arg.startsWith("--mode="))
+    ?.substring("--mode=".length);
+  const mode = (process.env.DOCS_LINK_CHECK || flag || "fail").toLowerCase();
+
+  if (!MODES.includes(mode as Mode)) {
+    console.error(
+      `Unknown link check mode "${mode}", expected one of: ${MODES.join(", ")}`,
+    );
+    process.exit(2);
+  }
+  return mode as Mode;
+}
+
+const mode = getMode();
+
+if (mode === "off") {
+  console.log("Docs link check skipped (DOCS_LINK_CHECK=off).");
+} else {
+  const brokenLinks = getBrokenLinks();
+
+  if (brokenLinks.length === 0) {
+    console.log("Docs link check: every internal link resolves.");
+  } else {
+    const log = mode === "fail" ? console.error : console.warn;
+    log(`Docs link check: ${brokenLinks.length} broken link(s)`);
+    brokenLinks.forEach((link) => log(`  ${formatBrokenLink(link)}`));
+    if (mode === "fail") process.exitCode = 1;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Checks versioned docs against a small docs tree with a `v5` version
+ * (scripts/fixtures/versioned-docs): per-version sidebars, links and
+ * search, canonical pages, the version switcher and the `/docs/latest`
+ * alias. Exits non-zero when anything is off.
+ *
+ *   npm run docs:versions
+ */
+import assert from "node:assert/strict";
+import path from "path";
+
+const failures: string[] = [];
+
+function expect(name: string, actual: unknown, expected: unknown) {
+  try {
+    assert.deepEqual(actual, expected);
+  } catch {
+    failures.push(
+      `${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`,
+    );
+  }
+}
+
+async function main() {
+  // The content index reads `lib/docs` under the working directory, so the
+  // modules are only loaded once it points at the fixture
+  process.chdir(path.join(__dirname, "fixtures/versioned-docs"));
+
+  const { findDoc, getAllDocs, getCanonicalDoc, getDocVersions } =
+    await import("../lib/doc-helper");
+  const { rewriteDocHref } = await import("../lib/doc-links");
+  const { getBrokenLinks } = await import("../lib/docs-health");
+  const { getDocsNavigation } = await import("../lib/docs-nav");
+  const { latestAliasHref, switchVersionHref } =
+    await import("../lib/docs-versions");
+  const { getSearchIndex, searchDocs } = await import("../lib/search-index");
+
+  expect(
+    "versions",
+    getDocVersions().map((version) => version.id),
+    ["latest", "v5"],
+  );
+  expect(
+    "v5 docs",
+    getAllDocs("v5")
+      .map((doc) => doc.slug)
+      .sort(),
+    ["v5", "v5/api/system/memory-management", "v5/legacy_hooks", "v5/routing"],
+  );
+
+  const v5Hrefs = getDocsNavigation("v5").flatMap((group) =>
+    group.items.map((item) => item.href),
+  );
+  expect(
+    "v5 sidebar stays in v5",
+    v5Hrefs.filter((href) => !href.startsWith("/docs/v5")),
+    [],
+  );
+  expect(
+    "latest sidebar stays in latest",
+    getDocsNavigation()
+      .flatMap((group) => group.items)
+      .filter((item) => item.href.startsWith("/docs/v5")),
+    [],
+  );
+
+  expect(
+    "relative link in v5",
+    rewriteDocHref("ROUTING.md", "v5"),
+    "/docs/v5/routing",
+  );
+  expect(
+    "link naming latest",
+    rewriteDocHref("latest/routing", "v5"),
+    "/docs/routing",
+  );
+  expect(
+    "link naming a missing version",
+    rewriteDocHref("v6/routing", "v5"),
+    "/docs/v5/v6/routing",
+  );
+  expect(
+    "broken links",
+    getBrokenLinks().map((link) => link.href),
+    ["v6/routing"],
+  );
+
+  expect(
+    "v5 search index",
+    getSearchIndex("v5").records.every((record) =>
+      record.slug.startsWith("v5"),
+    ),
+    true,
+  );
+  const v5Results = searchDocs("memory usage", "v5").map(
+    (result) => result.slug,
+  );
+  expect(
+    "v5 search stays in v5",
+    v5Results.filter((slug) => !slug.startsWith("v5")),
+    [],
+  );
+  expect(
+    "v5 search finds the v5 page",
+    v5Results[0],
+    "v5/api/system/memory-management",
+  );
+  expect(
+    "v5 search with a path filter",
+    searchDocs("path:api/system usage", "v5").map((result) => result.slug),
+    ["v5/api/system/memory-management"],
+  );
+  expect(
+    "latest search",
+    searchDocs("path:api/system usage").map((result) => result.slug),
+    ["api/system/memory-management"],
+  );
+
+  expect(
+    "canonical of a page latest has",
+    getCanonicalDoc(findDoc("v5/routing")!).slug,
+    "routing",
+  );
+  expect(
+    "canonical of a v5-only page",
+    getCanonicalDoc(findDoc("v5/legacy_hooks")!).slug,
+    "v5/legacy_hooks",
+  );
+
+  const slugs = (version: string) => getAllDocs(version).map((doc) => doc.slug);
+  expect(
+    "switch to a version with the page",
+    switchVersionHref("/docs/v5/routing", "latest", slugs("latest")),
+    "/docs/routing",
+  );
+  expect(
+    "switch to a version without the page",
+    switchVersionHref("/docs/v5/legacy_hooks", "latest", slugs("latest")),
+    "/docs",
+  );
+  expect(
+    "switch from latest",
+    switchVersionHref("/docs/ROUTING", "v5", slugs("v5")),
+    "/docs/v5/routing",
+  );
+
+  expect(
+    "latest alias",
+    latestAliasHref("latest/api/system/memory-management"),
+    "/docs/api/system/memory-management",
+  );
+  expect("latest alias of the home page", latestAliasHref("latest"), "/docs");
+  expect("no alias for other slugs", latestAliasHref("v5/routing"), null);
+}
+
+main().then(() => {
+  if (failures.length === 0) {
+    console.log("Docs versions check: all good.");
+    return;
+  }
+  console.error(`Docs versions check: ${failures.length} failure(s)`);
+  failures.forEach((failure) => console.error(`  ${failure}`));
+  process.exitCode = 1;
+});
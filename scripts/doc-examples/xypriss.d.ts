@@ -0,0 +1,286 @@
+/*
+ * Public API of XyPriss as the docs use it, for `npm run docs:examples`.
+ * Keep it in step with the framework: a signature changed here makes
+ * every example still using the old one fail the check.
+ *
+ * Server, request/response, plugin and config APIs are typed; the wider
+ * surface (system helpers, security utilities) is declared loosely so
+ * examples using it still compile.
+ */
+
+declare module "xypriss" {
+  type Dict = { [key: string]: any };
+
+  export interface UploadedFile {
+    fieldname: string;
+    originalname: string;
+    encoding: string;
+    mimetype: string;
+    size: number;
+    destination?: string;
+    filename?: string;
+    path?: string;
+    buffer?: Buffer;
+  }
+
+  export interface XyPrissRequest {
+    params: { [key: string]: string };
+    query: Dict;
+    body: any;
+    headers: { [key: string]: string | string[] | undefined };
+    cookies: { [key: string]: string };
+    method: string;
+    path: string;
+    url: string;
+    originalUrl: string;
+    ip: string;
+    ips: string[];
+    protocol: string;
+    hostname: string;
+    secure: boolean;
+    xhr: boolean;
+    app: XyPrissServer;
+    file?: UploadedFile;
+    files?: UploadedFile[] | { [field: string]: UploadedFile[] };
+    get(header: string): string | undefined;
+    /* Set by middleware and plugins: `req.user`, `req.startTime`, ... */
+    [key: string]: any;
+  }
+
+  export interface XyPrissResponse {
+    statusCode: number;
+    headersSent: boolean;
+    locals: Dict;
+    status(code: number): this;
+    json(body?: unknown): void;
+    xJson(body?: unknown): void;
+    send(body?: unknown): void;
+    sendFile(
+      path: string,
+      options?: Dict,
+      callback?: (err?: Error) => void,
+    ): void;
+    set(field: string | Dict, value?: string | string[]): this;
+    setHeader(name: string, value: string | number | readonly string[]): this;
+    getHeader(name: string): string | number | string[] | undefined;
+    cookie(name: string, value: string, options?: Dict): this;
+    clearCookie(name: string, options?: Dict): this;
+    redirect(url: string): void;
+    redirect(status: number, url: string): void;
+    on(event: string, listener: (...args: any[]) => void): this;
+    end(chunk?: unknown): void;
+    [key: string]: any;
+  }
+
+  export type NextFunction = (err?: unknown) => void;
+
+  export type RequestHandler = (
+    req: XyPrissRequest,
+    res: XyPrissResponse,
+    next: NextFunction,
+  ) => unknown;
+
+  export type ErrorHandler = (
+    err: any,
+    req: XyPrissRequest,
+    res: XyPrissResponse,
+    next: NextFunction,
+  ) => unknown;
+
+  type Handlers = (RequestHandler | ErrorHandler | RequestHandler[])[];
+
+  export interface XyPrissRouter {
+    get(path: string | RegExp, ...handlers: Handlers): this;
+    post(path: string | RegExp, ...handlers: Handlers): this;
+    put(path: string | RegExp, ...handlers: Handlers): this;
+    patch(path: string | RegExp, ...handlers: Handlers): this;
+    delete(path: string | RegExp, ...handlers: Handlers): this;
+    options(path: string | RegExp, ...handlers: Handlers): this;
+    head(path: string | RegExp, ...handlers: Handlers): this;
+    all(path: string | RegExp, ...handlers: Handlers): this;
+    use(...handlers: Handlers): this;
+    use(path: string, ...handlers: (Handlers[number] | XyPrissRouter)[]): this;
+  }
+
+  export interface ServerOptions {
+    env?: string;
+    server?: Dict & {
+      port?: number;
+      host?: string;
+      autoPortSwitch?: Dict;
+      trustProxy?: unknown;
+    };
+    security?: Dict;
+    cache?: Dict;
+    cluster?: Dict;
+    logging?: Dict;
+    fileUpload?: Dict;
+    multiServer?: Dict;
+    network?: Dict;
+    plugins?: Dict;
+    pluginPermissions?: Dict | Dict[];
+    requestManagement?: Dict;
+    performance?: Dict;
+    monitoring?: Dict;
+    workerPool?: Dict;
+    routing?: Dict;
+    middleware?: Dict;
+    [section: `__${string}__`]: unknown;
+  }
+
+  export interface XyPrissServer extends XyPrissRouter {
+    /* Options the server was created with */
+    configs: ServerOptions;
+    start(port?: number, callback?: () => void): Promise<void>;
+    listen(port?: number, callback?: () => void): Promise<void>;
+    startAllServers(): Promise<void>;
+    stop(): Promise<void>;
+    waitForReady(): Promise<void>;
+    set(key: string, value: unknown): this;
+    getPort(): number;
+    getMetrics(): Dict;
+    getCache(): Dict;
+    setTrustProxy(value: unknown): void;
+    middleware(config?: Dict): Dict;
+    uploadSingle(fieldName: string): RequestHandler;
+    uploadArray(fieldName: string, maxCount?: number): RequestHandler;
+    uploadFields(fields: { name: string; maxCount?: number }[]): RequestHandler;
+    uploadAny(): RequestHandler;
+    getConsoleInterceptor(): Dict;
+    getConsoleStats(): Dict;
+    resetConsoleStats(): void;
+    enableConsoleInterception(): void;
+    disableConsoleInterception(): void;
+    enableConsoleEncryption(key?: string): void;
+    disableConsoleEncryption(): void;
+    setConsoleEncryptionDisplayMode(
+      mode: string,
+      showEncryptionStatus?: boolean,
+    ): void;
+  }
+
+  export function createServer(options?: ServerOptions): XyPrissServer;
+  export function Router(options?: Dict): XyPrissRouter;
+
+  export interface XyPrissPlugin {
+    name: string;
+    version?: string;
+    description?: string;
+    dependencies?: string[];
+    onRegister?(...args: any[]): unknown;
+    onServerStart?(server: XyPrissServer): unknown;
+    onServerReady?(server: XyPrissServer): unknown;
+    onServerStop?(server: XyPrissServer): unknown;
+    onRequest?(
+      req: XyPrissRequest,
+      res: XyPrissResponse,
+      next: NextFunction,
+    ): unknown;
+    onResponse?(req: XyPrissRequest, res: XyPrissResponse): unknown;
+    onError?(
+      error: any,
+      req: XyPrissRequest,
+      res: XyPrissResponse,
+      next?: NextFunction,
+    ): unknown;
+    registerRoutes?(app: XyPrissServer): unknown;
+    middleware?: RequestHandler | RequestHandler[] | Dict;
+    onConsoleIntercept?(log: Dict): unknown;
+    /* Further lifecycle hooks and plugin-specific members */
+    [key: string]: unknown;
+  }
+
+  export const Plugin: {
+    create<T extends XyPrissPlugin>(config: T): T;
+    register(plugin: XyPrissPlugin, config?: unknown): void;
+    exec(plugin: XyPrissPlugin, config?: unknown): void;
+    factory<C = any>(
+      create: (config: C) => XyPrissPlugin,
+    ): (config?: C) => XyPrissPlugin;
+    get(name: string): XyPrissPlugin | undefined;
+    getStats(): Dict;
+  };
+
+  export const PluginHookIds: { [hook: string]: string };
+
+  export const Configs: {
+    get(key: string): any;
+    set(key: string, value: unknown): void;
+    has(key: string): boolean;
+    update(key: string, value: unknown): void;
+    merge(config: Dict): void;
+    getOrDefault<T>(key: string, fallback: T): T;
+    getAll(): Dict;
+    reset(): void;
+    delete(key: string): void;
+    isInitialized(): boolean;
+    [key: string]: any;
+  };
+
+  export type ConfigKey = keyof ServerOptions;
+
+  export class XyPrissError extends Error {
+    constructor(message: string, options?: Dict | number | string);
+    code?: string;
+    statusCode?: number;
+    details?: unknown;
+  }
+
+  export class FileUploadAPI {
+    constructor(...args: any[]);
+    [member: string]: any;
+  }
+
+  export interface XyPrissSys {
+    $get<T = any>(key: string, fallback?: T): T;
+    [member: string]: any;
+  }
+
+  export type SystemInfo = Dict;
+  export type CpuInfo = Dict;
+  export type CpuUsage = Dict;
+  export type MemoryInfo = Dict;
+  export type DiskInfo = Dict;
+  export type NetworkInterface = Dict;
+  export type NetworkStats = Dict;
+  export type ProcessInfo = Dict;
+  export type ProcessStats = Dict;
+  export type FileStats = Dict;
+  export type PathCheck = Dict;
+  export type SearchMatch = Dict;
+  export type FileUploadConfig = NonNullable<ServerOptions["fileUpload"]>;
+
+  export const uploadSingle: (fieldName: string) => RequestHandler;
+  export const Upload: any;
+  export const XJsonResponseHandler: any;
+  export const XyPrissSecurity: any;
+  export const TamperEvidentLogger: any;
+  export const fString: any;
+  export const fObject: any;
+  export const fArray: any;
+  export const validate: any;
+  export const sanitize: any;
+  export const rateLimit: any;
+  export const hashPassword: any;
+  export const generateSecureToken: any;
+}
+
+/* Packages the examples import besides XyPriss, untyped here */
+declare module "*";
+
+/*
+ * Names many examples use without declaring them, as if following on from
+ * the setup shown earlier on the page. An example declaring its own
+ * shadows these.
+ */
+declare const app: import("xypriss").XyPrissServer;
+declare const server: import("xypriss").XyPrissServer;
+declare const router: import("xypriss").XyPrissRouter;
+declare const req: import("xypriss").XyPrissRequest;
+declare const res: import("xypriss").XyPrissResponse;
+declare const next: import("xypriss").NextFunction;
+
+/* Globals XyPriss installs: `__sys__`, `__const__`, `__cfg__` */
+declare var __sys__: import("xypriss").XyPrissSys;
+declare var __const__: any;
+declare var __cfg__: any;